@@ -0,0 +1,91 @@
+import { ScreenshotPreventionOptions } from './types';
+
+const CONFIG_SELECTOR = 'script[type="application/json"][data-screenshot-prevention-config]';
+
+const parseBoolean = (value: string) => value !== 'false';
+
+// Options that fit in an attribute; anything structured goes in the JSON block
+const ATTRIBUTE_PARSERS: Partial<Record<keyof ScreenshotPreventionOptions, (value: string) => unknown>> = {
+    blurIntensity: String,
+    warningMessage: String,
+    preventCopy: parseBoolean,
+    preventInspect: parseBoolean,
+    recoveryDelay: Number,
+    debug: parseBoolean,
+    tamperProtection: String,
+    printPolicy: String,
+    printNotice: String,
+    privacyScreen: parseBoolean,
+    spotlight: parseBoolean,
+    protectMedia: parseBoolean,
+    locale: String
+};
+
+/**
+ * The script tag that asked for auto-initialization. `currentScript` is only
+ * set while a classic script runs, so bundles loaded otherwise fall back to
+ * looking the tag up.
+ */
+export function findAutoInitScript(): HTMLScriptElement | null {
+    const current = document.currentScript;
+    if (current instanceof HTMLScriptElement && current.hasAttribute('data-auto-init')) {
+        return current;
+    }
+
+    return document.querySelector<HTMLScriptElement>('script[data-auto-init]');
+}
+
+export function onDomReady(callback: () => void): void {
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', callback, { once: true });
+    } else {
+        callback();
+    }
+}
+
+function readConfigBlock(): Partial<ScreenshotPreventionOptions> {
+    const block = document.querySelector(CONFIG_SELECTOR);
+    if (!block?.textContent) return {};
+
+    try {
+        return JSON.parse(block.textContent);
+    } catch (error) {
+        console.error('[EnhancedScreenshotPrevention] Invalid JSON config block', error);
+        return {};
+    }
+}
+
+const ATTRIBUTE_OPTIONS = Object.keys(ATTRIBUTE_PARSERS) as Array<keyof ScreenshotPreventionOptions>;
+
+/** `recoveryDelay` → `recovery-delay` */
+const toAttributeName = (option: string) => option.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+/** Attribute names `readAttributeOptions` looks at, for `observedAttributes` */
+export function optionAttributeNames(prefix = ''): string[] {
+    return ATTRIBUTE_OPTIONS.map(option => prefix + toAttributeName(option));
+}
+
+/** Options set as attributes on `element`, e.g. `recovery-delay="3000"` */
+export function readAttributeOptions(element: Element, prefix = ''): Partial<ScreenshotPreventionOptions> {
+    const options: Record<string, unknown> = {};
+
+    ATTRIBUTE_OPTIONS.forEach(option => {
+        const value = element.getAttribute(prefix + toAttributeName(option));
+        if (value !== null) {
+            options[option] = ATTRIBUTE_PARSERS[option]!(value);
+        }
+    });
+
+    return options;
+}
+
+/**
+ * Options declared in the page: the JSON config block first, then `data-*`
+ * attributes on the script tag, e.g. `data-recovery-delay="3000"`
+ */
+export function readDeclarativeOptions(script: HTMLScriptElement | null): Partial<ScreenshotPreventionOptions> {
+    return {
+        ...readConfigBlock(),
+        ...(script ? readAttributeOptions(script, 'data-') : {})
+    };
+}
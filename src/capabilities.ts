@@ -0,0 +1,52 @@
+import { CapabilityFallback, CapabilityStatus, ProtectionFeature } from './types';
+
+function supportsCss(property: string, value: string): boolean {
+    return typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports(property, value);
+}
+
+/** Without it the overlay and zones fall back to an opaque mask */
+export function supportsBackdropFilter(): boolean {
+    return supportsCss('backdrop-filter', 'blur(1px)') || supportsCss('-webkit-backdrop-filter', 'blur(1px)');
+}
+
+const supportsMutationObserver = () => typeof MutationObserver !== 'undefined';
+
+/** What each feature needs from the browser to work as intended */
+export const featureSupport: Record<ProtectionFeature, () => boolean> = {
+    blur: supportsBackdropFilter,
+    zones: supportsBackdropFilter,
+    // The spotlight cuts its hole into a blurred layer with a CSS mask
+    spotlight: () => supportsBackdropFilter() &&
+        (supportsCss('mask-image', 'none') || supportsCss('-webkit-mask-image', 'none')),
+    privacyScreen: () => typeof document.hidden === 'boolean',
+    protectMedia: () => true,
+    watermark: () => true,
+    frames: supportsMutationObserver,
+    sync: () => typeof BroadcastChannel === 'function' || typeof StorageEvent === 'function',
+    reporting: () => typeof fetch === 'function' || typeof navigator.sendBeacon === 'function',
+    tamperProtection: supportsMutationObserver
+};
+
+export const protectionFeatures = Object.keys(featureSupport) as ProtectionFeature[];
+
+/**
+ * A feature is active when it is enabled, running and either supported or
+ * covered by a fallback; `fallback` is only set while one is in use
+ */
+export function capabilityStatus(
+    supported: boolean,
+    enabled: boolean,
+    running: boolean,
+    fallback?: CapabilityFallback
+): CapabilityStatus {
+    const status: CapabilityStatus = {
+        supported,
+        enabled,
+        active: enabled && running && (supported || fallback !== undefined)
+    };
+
+    if (!supported && fallback) {
+        status.fallback = fallback;
+    }
+    return status;
+}
@@ -0,0 +1,426 @@
+import { matchesShortcut, resolveShortcutRules } from './shortcuts';
+import {
+    CopyProtectionOptions,
+    Detector,
+    DetectorContext,
+    DevToolsDetectionOptions,
+    DevToolsStrategy
+} from './types';
+
+function debounce<T extends (...args: any[]) => void>(
+    fn: T,
+    delay: number
+): ((...args: Parameters<T>) => void) & { cancel(): void } {
+    let timeoutId: number;
+
+    const debounced = (...args: Parameters<T>) => {
+        window.clearTimeout(timeoutId);
+        timeoutId = window.setTimeout(() => fn(...args), delay);
+    };
+
+    return Object.assign(debounced, {
+        cancel: () => window.clearTimeout(timeoutId)
+    });
+}
+
+/** How long resize-driven detectors wait for the resizing to settle */
+export const RESIZE_DEBOUNCE = 100;
+
+export const keyboardDetector: Detector = {
+    name: 'keyboard',
+    frames: true,
+    attach(context) {
+        const { document } = context.window;
+        const handleKeyboardEvent = (e: KeyboardEvent) => {
+            const rule = resolveShortcutRules(context.options.shortcuts).find(r => matchesShortcut(r, e));
+
+            if (rule) {
+                e.preventDefault();
+                context.report(`Screenshot shortcut detected: ${rule.id}`);
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyboardEvent);
+        return () => document.removeEventListener('keydown', handleKeyboardEvent);
+    }
+};
+
+export const visibilityChangeDetector: Detector = {
+    name: 'visibilityChange',
+    attach(context) {
+        let lastVisibilityChange = 0;
+
+        const handleVisibilityChange = () => {
+            const now = Date.now();
+            const timeDiff = now - lastVisibilityChange;
+
+            if (!document.hidden && timeDiff < 1000) {
+                context.report('Rapid visibility change detected');
+            }
+
+            lastVisibilityChange = now;
+        };
+
+        document.addEventListener('visibilitychange', handleVisibilityChange, { passive: true });
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+};
+
+export const mobileDetector: Detector = {
+    name: 'mobile',
+    isSupported: target => Boolean(target.visualViewport),
+    attach(context) {
+        const viewport = window.visualViewport;
+        if (!viewport) return () => {};
+
+        const handleViewportResize = debounce(() => {
+            if (Math.abs(viewport.width - window.outerWidth) > 50) {
+                context.report('Mobile screenshot detected');
+            }
+        }, RESIZE_DEBOUNCE);
+
+        viewport.addEventListener('resize', handleViewportResize, { passive: true });
+        return () => {
+            handleViewportResize.cancel();
+            viewport.removeEventListener('resize', handleViewportResize);
+        };
+    }
+};
+
+const SIZE_THRESHOLD = 160;
+// Interval checks between console probes that nothing else prompted
+const CONSOLE_PROBE_EVERY = 10;
+
+function resolveDevToolsDetection(context: DetectorContext): Required<DevToolsDetectionOptions> {
+    const { preventInspect } = context.options;
+    const settings = typeof preventInspect === 'object' ? preventInspect : {};
+
+    return {
+        strategies: ['size', 'console'],
+        threshold: 0.6,
+        checkInterval: 1000,
+        ...settings,
+        weights: { size: 0.5, console: 0.7, debugger: 0.7, ...settings.weights }
+    };
+}
+
+// Each probe reports whether its signal suggests devtools are open
+const devToolsProbes: Record<DevToolsStrategy, () => boolean> = {
+    // Docked devtools shrink the viewport, but so do sidebars and zoom
+    size: () =>
+        window.outerWidth - window.innerWidth > SIZE_THRESHOLD ||
+        window.outerHeight - window.innerHeight > SIZE_THRESHOLD,
+    // The console only reads the element's id when it renders the entry
+    console: () => {
+        let formatted = false;
+        const probe = document.createElement('div');
+        Object.defineProperty(probe, 'id', {
+            get: () => {
+                formatted = true;
+                return '';
+            }
+        });
+        console.debug(probe);
+        return formatted;
+    },
+    // Built at runtime so minifiers that drop `debugger` leave it alone
+    debugger: () => {
+        const start = performance.now();
+        try {
+            new Function('debugger')();
+        } catch {
+            // Blocked by a content security policy without 'unsafe-eval'
+            return false;
+        }
+        return performance.now() - start > 100;
+    }
+};
+
+export const devToolsDetector: Detector = {
+    name: 'devTools',
+    attach(context) {
+        let isOpen = false;
+        let checks = 0;
+
+        const check = (resized = false) => {
+            const settings = resolveDevToolsDetection(context);
+            // Logging on every interval would flood the page's console, so the
+            // console probe runs on a resize, while the size signal fires, and
+            // otherwise every few checks, which still finds undocked devtools
+            const probeConsole = resized || ++checks % CONSOLE_PROBE_EVERY === 0 || devToolsProbes.size();
+            const strategies = settings.strategies.filter(strategy =>
+                (strategy !== 'console' || probeConsole) && devToolsProbes[strategy]()
+            );
+            const total = strategies.reduce((sum, strategy) => sum + (settings.weights[strategy] ?? 0), 0);
+            const score = Math.round(Math.min(1, total) * 100) / 100;
+
+            // Report when devtools open, not on every check while they stay open
+            const wasOpen = isOpen;
+            isOpen = strategies.length > 0 && score >= settings.threshold;
+            if (isOpen && !wasOpen) {
+                context.report('Developer tools detected', { score, strategies });
+            }
+        };
+
+        const checkOnResize = debounce(() => check(true), RESIZE_DEBOUNCE);
+        window.addEventListener('resize', checkOnResize);
+
+        const { checkInterval } = resolveDevToolsDetection(context);
+        const intervalId = checkInterval > 0 ? window.setInterval(() => check(), checkInterval) : null;
+
+        return () => {
+            checkOnResize.cancel();
+            window.removeEventListener('resize', checkOnResize);
+            if (intervalId !== null) {
+                window.clearInterval(intervalId);
+            }
+        };
+    }
+};
+
+const SHARE_POLL_INTERVAL = 1000;
+
+/**
+ * Without `onScreenShareRequest` every `getDisplayMedia` call is refused.
+ * With it, approved shares go through while protected content stays masked
+ * until every track of every approved stream has ended.
+ */
+export const screenCaptureDetector: Detector = {
+    name: 'screenCapture',
+    frames: true,
+    isSupported: target => Boolean(target.navigator.mediaDevices?.getDisplayMedia),
+    attach(context) {
+        const mediaDevices = context.window.navigator.mediaDevices;
+        if (!mediaDevices || !mediaDevices.getDisplayMedia) return () => {};
+
+        const originalGetDisplayMedia = mediaDevices.getDisplayMedia;
+        const activeShares = new Set<MediaStream>();
+        let pollTimer: number | null = null;
+        let detached = false;
+
+        const updateMask = () => {
+            if (detached) return;
+            context.mask(activeShares.size > 0);
+
+            if (activeShares.size > 0 && pollTimer === null) {
+                // A track stopped by the page itself fires no `ended` event
+                pollTimer = window.setInterval(checkShares, SHARE_POLL_INTERVAL);
+            } else if (activeShares.size === 0 && pollTimer !== null) {
+                window.clearInterval(pollTimer);
+                pollTimer = null;
+            }
+        };
+
+        const checkShares = () => {
+            activeShares.forEach(stream => {
+                if (stream.getTracks().every(track => track.readyState === 'ended')) {
+                    activeShares.delete(stream);
+                    context.report('Screen share ended', { allowed: true });
+                }
+            });
+            updateMask();
+        };
+
+        const isApproved = async (constraints?: DisplayMediaStreamOptions): Promise<boolean> => {
+            const policy = context.options.onScreenShareRequest;
+            if (!policy) return false;
+
+            try {
+                return await policy({ constraints, timestamp: Date.now() });
+            } catch (error) {
+                console.error('[EnhancedScreenshotPrevention] Screen share policy failed:', error);
+                return false;
+            }
+        };
+
+        mediaDevices.getDisplayMedia = async (constraints?: DisplayMediaStreamOptions) => {
+            if (!(await isApproved(constraints))) {
+                context.report('Screen capture attempted');
+                throw new Error('Screen capture is not allowed');
+            }
+
+            // Mask before the picker opens so the first frames are covered too
+            if (!detached) {
+                context.mask(true);
+            }
+
+            let stream: MediaStream;
+            try {
+                stream = await originalGetDisplayMedia.call(mediaDevices, constraints);
+            } catch (error) {
+                updateMask();
+                throw error;
+            }
+
+            if (detached) return stream;
+
+            activeShares.add(stream);
+            stream.getTracks().forEach(track => track.addEventListener('ended', checkShares));
+            context.report('Screen share started', { allowed: true });
+            updateMask();
+            return stream;
+        };
+        const unguard = context.guardProperty(mediaDevices, 'getDisplayMedia');
+
+        return () => {
+            unguard();
+            mediaDevices.getDisplayMedia = originalGetDisplayMedia;
+
+            activeShares.forEach(stream => {
+                stream.getTracks().forEach(track => track.removeEventListener('ended', checkShares));
+            });
+            activeShares.clear();
+            updateMask();
+            detached = true;
+        };
+    }
+};
+
+export const mediaRecordingDetector: Detector = {
+    name: 'mediaRecording',
+    isSupported: target => 'mediaSession' in target.navigator && Boolean(target.navigator.mediaSession),
+    attach(context) {
+        if (!('mediaSession' in navigator) || !navigator.mediaSession) return () => {};
+
+        const mediaSession = navigator.mediaSession;
+        mediaSession.setActionHandler('play', () => {
+            context.report('Media recording detected');
+        });
+
+        return () => mediaSession.setActionHandler('play', null);
+    }
+};
+
+const EDITABLE_SELECTOR = 'input, textarea, select, [contenteditable=""], [contenteditable="true"]';
+
+function resolveCopyProtection(context: DetectorContext): Required<CopyProtectionOptions> {
+    const { preventCopy } = context.options;
+
+    return {
+        allowInInputs: true,
+        mode: 'block',
+        attribution: `\n\nSource: ${window.location.href}`,
+        blockContextMenu: true,
+        blockDrag: true,
+        ...(typeof preventCopy === 'object' ? preventCopy : {})
+    };
+}
+
+// Duck-typed, since elements inside a frame are not instances of this window's Element
+function isEditableTarget(target: EventTarget | null): boolean {
+    const element = target as Element | null;
+    return typeof element?.closest === 'function' && element.closest(EDITABLE_SELECTOR) !== null;
+}
+
+export const clipboardDetector: Detector = {
+    name: 'clipboard',
+    frames: true,
+    attach(context) {
+        const { document } = context.window;
+        const handleClipboard = (e: Event) => {
+            const settings = resolveCopyProtection(context);
+            if (settings.allowInInputs && isEditableTarget(e.target)) return;
+
+            const clipboardData = (e as ClipboardEvent).clipboardData;
+            if (settings.mode === 'attribute' && clipboardData) {
+                const selection = document.getSelection()?.toString() ?? '';
+                const text = typeof settings.attribution === 'function'
+                    ? settings.attribution(selection)
+                    : selection + settings.attribution;
+
+                clipboardData.setData('text/plain', text);
+                e.preventDefault();
+                return;
+            }
+
+            e.preventDefault();
+            context.report(`${e.type === 'cut' ? 'Cut' : 'Copy'} blocked`);
+        };
+
+        const handleContextMenu = (e: Event) => {
+            const settings = resolveCopyProtection(context);
+            if (!settings.blockContextMenu || (settings.allowInInputs && isEditableTarget(e.target))) return;
+
+            e.preventDefault();
+            context.report('Context menu blocked');
+        };
+
+        const handleDragStart = (e: Event) => {
+            const settings = resolveCopyProtection(context);
+            if (!settings.blockDrag || (settings.allowInInputs && isEditableTarget(e.target))) return;
+
+            e.preventDefault();
+            context.report('Drag blocked');
+        };
+
+        // Selection starts on every click-drag, so it is prevented without
+        // counting as an attempt
+        const handleSelectStart = (e: Event) => {
+            const settings = resolveCopyProtection(context);
+            if (settings.allowInInputs && isEditableTarget(e.target)) return;
+
+            e.preventDefault();
+        };
+
+        const listeners: Array<[string, (e: Event) => void]> = [
+            ['copy', handleClipboard],
+            ['cut', handleClipboard],
+            ['contextmenu', handleContextMenu],
+            ['dragstart', handleDragStart],
+            ['selectstart', handleSelectStart]
+        ];
+
+        listeners.forEach(([type, listener]) => document.addEventListener(type, listener));
+        return () => {
+            listeners.forEach(([type, listener]) => document.removeEventListener(type, listener));
+        };
+    }
+};
+
+export const printDetector: Detector = {
+    name: 'print',
+    frames: true,
+    attach(context) {
+        const { document } = context.window;
+        let lastShortcut = 0;
+
+        const handleKeyboardEvent = (e: KeyboardEvent) => {
+            const isPrintShortcut = (e.ctrlKey || e.metaKey) && !e.altKey &&
+                (e.code === 'KeyP' || e.key.toLowerCase() === 'p');
+            if (!isPrintShortcut) return;
+
+            lastShortcut = Date.now();
+
+            if (context.options.printPolicy === 'block') {
+                e.preventDefault();
+                context.report('Print shortcut blocked');
+            } else {
+                context.report('Print shortcut detected');
+            }
+        };
+
+        // The shortcut already counted when it leads straight to the dialog
+        const handleBeforePrint = () => {
+            if (Date.now() - lastShortcut < 1000) return;
+            context.report('Print started');
+        };
+
+        document.addEventListener('keydown', handleKeyboardEvent);
+        context.window.addEventListener('beforeprint', handleBeforePrint);
+        return () => {
+            document.removeEventListener('keydown', handleKeyboardEvent);
+            context.window.removeEventListener('beforeprint', handleBeforePrint);
+        };
+    }
+};
+
+export const builtInDetectors: readonly Detector[] = [
+    keyboardDetector,
+    visibilityChangeDetector,
+    mobileDetector,
+    devToolsDetector,
+    screenCaptureDetector,
+    mediaRecordingDetector,
+    clipboardDetector,
+    printDetector
+];
@@ -0,0 +1,36 @@
+/**
+ * Collects teardown callbacks so everything an instance attaches to the page
+ * can be undone in one call, in reverse order of registration.
+ */
+export class Disposables {
+    private items: Array<() => void> = [];
+
+    public add(dispose: () => void): () => void {
+        let disposed = false;
+        const once = () => {
+            if (disposed) return;
+            disposed = true;
+            this.items = this.items.filter(item => item !== once);
+            dispose();
+        };
+
+        this.items.push(once);
+        return once;
+    }
+
+    public listen(
+        target: EventTarget,
+        type: string,
+        listener: EventListenerOrEventListenerObject,
+        options?: AddEventListenerOptions | boolean
+    ): () => void {
+        target.addEventListener(type, listener, options);
+        return this.add(() => target.removeEventListener(type, listener, options));
+    }
+
+    public dispose(): void {
+        const items = this.items.slice().reverse();
+        this.items = [];
+        items.forEach(dispose => dispose());
+    }
+}
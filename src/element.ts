@@ -0,0 +1,52 @@
+import { optionAttributeNames, readAttributeOptions } from './autoinit';
+import { acquireScreenshotPrevention, ScreenshotPreventionLease } from './shared';
+
+// Keeps the module importable during server rendering, where the element is never defined
+const BaseElement: typeof HTMLElement = typeof HTMLElement === 'undefined'
+    ? (class {} as typeof HTMLElement)
+    : HTMLElement;
+
+/**
+ * `<protected-content>`: its content is a protection zone of the shared
+ * instance, and its attributes (`blur-intensity`, `recovery-delay`…) are
+ * applied as options.
+ */
+export class ProtectedContentElement extends BaseElement {
+    static get observedAttributes(): string[] {
+        return optionAttributeNames();
+    }
+
+    private lease: ScreenshotPreventionLease | null = null;
+
+    connectedCallback(): void {
+        if (!this.lease) {
+            this.lease = acquireScreenshotPrevention(readAttributeOptions(this));
+        }
+        this.lease.instance.protect(this);
+    }
+
+    disconnectedCallback(): void {
+        // Moving the element disconnects and reconnects it in one go;
+        // only let go once it has really left the document
+        queueMicrotask(() => {
+            if (this.isConnected || !this.lease) return;
+
+            this.lease.instance.unprotect(this);
+            this.lease.release();
+            this.lease = null;
+        });
+    }
+
+    attributeChangedCallback(): void {
+        this.lease?.update(readAttributeOptions(this));
+    }
+}
+
+export function defineProtectedContent(name = 'protected-content'): void {
+    if (typeof customElements === 'undefined' || customElements.get(name)) return;
+
+    // A class registers under one name only, so each name gets its own subclass
+    customElements.define(name, class extends ProtectedContentElement {});
+}
+
+defineProtectedContent();
@@ -0,0 +1,50 @@
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. A throwing handler is logged and skipped so
+ * one subscriber cannot starve the others.
+ */
+export class TypedEmitter<Events extends object> {
+    private readonly handlers = new Map<keyof Events, Set<EventHandler<any>>>();
+
+    public on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+        let set = this.handlers.get(event);
+        if (!set) {
+            set = new Set();
+            this.handlers.set(event, set);
+        }
+
+        set.add(handler);
+        return () => this.off(event, handler);
+    }
+
+    public once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+        const wrapper: EventHandler<Events[K]> = (payload) => {
+            this.off(event, wrapper);
+            handler(payload);
+        };
+
+        return this.on(event, wrapper);
+    }
+
+    public off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+        this.handlers.get(event)?.delete(handler);
+    }
+
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const set = this.handlers.get(event);
+        if (!set) return;
+
+        Array.from(set).forEach(handler => {
+            try {
+                handler(payload);
+            } catch (error) {
+                console.error(`[EnhancedScreenshotPrevention] "${String(event)}" handler failed`, error);
+            }
+        });
+    }
+
+    public clear(): void {
+        this.handlers.clear();
+    }
+}
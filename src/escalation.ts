@@ -0,0 +1,84 @@
+import { AttemptDetails, EscalationDetails, EscalationOptions, EscalationRule } from './types';
+
+export interface EscalationOutcome {
+    lockDuration: number;
+    persistent: boolean;
+    escalations: EscalationDetails[];
+}
+
+interface WeightedAttempt {
+    timestamp: number;
+    weight: number;
+}
+
+/**
+ * Scores attempts against declarative escalation rules. Each attempt counts
+ * with its method's weight until it falls out of the rule's `within` window,
+ * or out of `decayAfter` for rules without one.
+ */
+export class EscalationPolicy {
+    private history: WeightedAttempt[] = [];
+    private readonly tripped = new Set<EscalationRule>();
+    private readonly decayAfter: number;
+
+    constructor(private readonly options: EscalationOptions) {
+        this.decayAfter = options.decayAfter ?? 15 * 60 * 1000;
+    }
+
+    public record(attempt: AttemptDetails): EscalationOutcome {
+        const weight = this.options.weights?.[attempt.method] ?? 1;
+        this.history.push({ timestamp: attempt.timestamp, weight });
+        this.prune(attempt.timestamp);
+
+        const outcome: EscalationOutcome = { lockDuration: 0, persistent: false, escalations: [] };
+
+        this.options.rules.forEach(rule => {
+            const score = this.score(rule, attempt.timestamp);
+
+            if (score < rule.attempts) {
+                this.tripped.delete(rule);
+                return;
+            }
+
+            if (rule.lockDuration !== undefined) {
+                outcome.lockDuration = Math.max(outcome.lockDuration, rule.lockDuration);
+            }
+
+            if (rule.persistentLock) {
+                outcome.persistent = true;
+            }
+
+            // onEscalate fires when the threshold is crossed, not on every
+            // attempt while the score stays above it
+            if (rule.escalate && !this.tripped.has(rule)) {
+                outcome.escalations.push({ rule, score, attempt });
+            }
+
+            this.tripped.add(rule);
+        });
+
+        return outcome;
+    }
+
+    public reset(): void {
+        this.history = [];
+        this.tripped.clear();
+    }
+
+    private score(rule: EscalationRule, now: number): number {
+        const since = now - (rule.within ?? this.decayAfter);
+
+        return this.history
+            .filter(entry => entry.timestamp > since)
+            .reduce((total, entry) => total + entry.weight, 0);
+    }
+
+    private prune(now: number): void {
+        const longest = this.options.rules.reduce(
+            (max, rule) => Math.max(max, rule.within ?? this.decayAfter),
+            0
+        );
+
+        this.history = this.history.filter(entry => entry.timestamp > now - longest);
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * Keeps keyboard and assistive-technology users on the lock warning while
+ * it is up: the rest of the page is made inert, focus moves to the warning
+ * and returns to where it was once the lock lifts.
+ */
+export class FocusLock {
+    private inerted: Element[] = [];
+    private previousFocus: HTMLElement | null = null;
+    private engaged = false;
+
+    public engage(target: HTMLElement): void {
+        // Re-rendering the warning can replace the element that had focus
+        if (this.engaged) {
+            if (document.activeElement !== target) {
+                target.focus({ preventScroll: true });
+            }
+            return;
+        }
+        this.engaged = true;
+
+        const active = document.activeElement;
+        this.previousFocus = active instanceof HTMLElement && active !== document.body ? active : null;
+
+        // The library's own layers stay live; elements that were inert
+        // already are left to whoever made them so
+        this.inerted = Array.from(document.body.children).filter(child =>
+            !child.hasAttribute('data-screenshot-prevention') && !child.hasAttribute('inert')
+        );
+        this.inerted.forEach(child => child.setAttribute('inert', ''));
+
+        target.focus({ preventScroll: true });
+    }
+
+    public release(): void {
+        if (!this.engaged) return;
+        this.engaged = false;
+
+        this.inerted.forEach(child => child.removeAttribute('inert'));
+        this.inerted = [];
+
+        if (this.previousFocus?.isConnected) {
+            this.previousFocus.focus({ preventScroll: true });
+        }
+        this.previousFocus = null;
+    }
+}
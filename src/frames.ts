@@ -0,0 +1,135 @@
+import { Disposables } from './disposables';
+import { FrameOptions } from './types';
+
+/** `type` of the messages child frames post to report a detection */
+export const FRAME_MESSAGE_TYPE = 'screenshot-prevention:detection';
+
+export interface FrameDetectionMessage {
+    type: typeof FRAME_MESSAGE_TYPE;
+    method: string;
+    details?: string;
+}
+
+export interface FrameHooks {
+    attach(target: Window): void;
+    detach(target: Window): void;
+    report(method: string, details: string | undefined, origin: string): void;
+}
+
+/**
+ * Extends detection into the page's iframes. Listeners on the top document
+ * never see events inside a frame, so same-origin frames get the detectors
+ * attached to their own window each time they load, and cross-origin
+ * frames may report detections over `postMessage`.
+ */
+export class FrameWatcher {
+    private readonly options: Required<FrameOptions>;
+    private readonly disposables = new Disposables();
+    // Frames keep their window across navigations, but each load brings a new document
+    private readonly frames = new Map<HTMLIFrameElement, { target: Window | null; onLoad: () => void }>();
+
+    constructor(options: FrameOptions, private readonly hooks: FrameHooks) {
+        this.options = {
+            sameOrigin: true,
+            allowedOrigins: [],
+            ...options
+        };
+    }
+
+    public start(): void {
+        if (this.options.sameOrigin) {
+            document.querySelectorAll('iframe').forEach(frame => this.watch(frame));
+
+            if (typeof MutationObserver !== 'undefined') {
+                const observer = new MutationObserver(records => this.handleMutations(records));
+                observer.observe(document.documentElement, { childList: true, subtree: true });
+                this.disposables.add(() => observer.disconnect());
+            }
+            this.disposables.add(() => Array.from(this.frames.keys()).forEach(frame => this.unwatch(frame)));
+        }
+
+        if (this.options.allowedOrigins.length > 0) {
+            this.disposables.listen(window, 'message', (e) => this.handleMessage(e as MessageEvent));
+        }
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+    }
+
+    private handleMutations(records: MutationRecord[]): void {
+        const framesIn = (nodes: NodeList) => Array.from(nodes).reduce<HTMLIFrameElement[]>((found, node) => {
+            if (node instanceof HTMLIFrameElement) return found.concat(node);
+            return node instanceof Element ? found.concat(Array.from(node.querySelectorAll('iframe'))) : found;
+        }, []);
+
+        records.forEach(record => {
+            framesIn(record.removedNodes).forEach(frame => {
+                if (!frame.isConnected) {
+                    this.unwatch(frame);
+                }
+            });
+            framesIn(record.addedNodes).forEach(frame => this.watch(frame));
+        });
+    }
+
+    private watch(frame: HTMLIFrameElement): void {
+        if (this.frames.has(frame)) return;
+
+        const onLoad = () => this.connect(frame);
+        this.frames.set(frame, { target: null, onLoad });
+        frame.addEventListener('load', onLoad);
+        this.connect(frame);
+    }
+
+    private unwatch(frame: HTMLIFrameElement): void {
+        const entry = this.frames.get(frame);
+        if (!entry) return;
+
+        frame.removeEventListener('load', entry.onLoad);
+        if (entry.target) {
+            this.hooks.detach(entry.target);
+        }
+        this.frames.delete(frame);
+    }
+
+    private connect(frame: HTMLIFrameElement): void {
+        const entry = this.frames.get(frame);
+        if (!entry) return;
+
+        if (entry.target) {
+            this.hooks.detach(entry.target);
+            entry.target = null;
+        }
+
+        const target = frame.contentWindow;
+        if (!target || !isSameOrigin(target)) return;
+
+        entry.target = target;
+        this.hooks.attach(target);
+    }
+
+    private handleMessage(e: MessageEvent): void {
+        const data = e.data as Partial<FrameDetectionMessage> | null;
+        if (!data || data.type !== FRAME_MESSAGE_TYPE || typeof data.method !== 'string') return;
+
+        const { allowedOrigins } = this.options;
+        if (!allowedOrigins.includes('*') && !allowedOrigins.includes(e.origin)) return;
+
+        // Only the page's own frames may report, not any window holding a reference to it
+        const fromChildFrame = Array.from(document.querySelectorAll('iframe'))
+            .some(frame => frame.contentWindow === e.source);
+        if (!fromChildFrame) return;
+
+        this.hooks.report(data.method, typeof data.details === 'string' ? data.details : undefined, e.origin);
+    }
+}
+
+function isSameOrigin(target: Window): boolean {
+    try {
+        // Reading the document of a cross-origin frame throws
+        return Boolean(target.document);
+    } catch {
+        return false;
+    }
+}
@@ -5,61 +5,121 @@
  * @license MIT
  */
 
-interface ScreenshotPreventionOptions {
-    blurIntensity?: string;
-    warningMessage?: string;
-    preventCopy?: boolean;
-    preventInspect?: boolean;
-    recoveryDelay?: number;
-    debug?: boolean;
-    onAttempt?: (details: AttemptDetails) => void;
-    customStyles?: Partial<UIStyles>;
-}
-
-interface AttemptDetails {
-    count: number;
-    method: DetectionMethod;
-    timestamp: number;
-    details?: string;
-}
+import {
+    AttemptDetails,
+    AttemptMetadata,
+    AttemptReport,
+    BuiltInDetectionMethod,
+    Capabilities,
+    CapabilityFallback,
+    CapabilityStatus,
+    CopyProtectionOptions,
+    DetectionMethod,
+    Detector,
+    DetectorContext,
+    DetectorToggles,
+    DevToolsDetectionOptions,
+    DevToolsStrategy,
+    DiagnosticTimings,
+    Diagnostics,
+    EscalationDetails,
+    EscalationOptions,
+    EscalationRule,
+    FrameOptions,
+    LockScreenOptions,
+    MediaProtectionOptions,
+    PrintPolicy,
+    PrivacyMaskReason,
+    PrivacyScreenOptions,
+    ProtectionFeature,
+    ProtectionZoneOptions,
+    ReportingOptions,
+    RoutePolicy,
+    RoutePolicyOptions,
+    RoutingOptions,
+    ScreenSharePolicy,
+    ScreenShareRequest,
+    ScreenshotPreventionEvent,
+    ScreenshotPreventionEventMap,
+    ScreenshotPreventionOptions,
+    ShortcutOptions,
+    ShortcutPlatform,
+    ShortcutRule,
+    SpotlightOptions,
+    SyncOptions,
+    TamperProtectionLevel,
+    UIStyles,
+    WarningMessageCatalog,
+    WarningRenderer,
+    WatermarkOptions
+} from './types';
+import { findAutoInitScript, onDomReady, readDeclarativeOptions } from './autoinit';
+import { capabilityStatus, featureSupport, protectionFeatures, supportsBackdropFilter } from './capabilities';
+import { builtInDetectors } from './detectors';
+import { Disposables } from './disposables';
+import { EventHandler, TypedEmitter } from './emitter';
+import { EscalationPolicy } from './escalation';
+import { FocusLock } from './focus';
+import { FrameWatcher } from './frames';
+import { IntegrityCheck, IntegrityMonitor } from './integrity';
+import { LockScreen } from './lockscreen';
+import { MediaGuard } from './media';
+import { detectLocale, ResolvedMessage, resolveWarningMessage } from './messages';
+import { PrivacyScreen } from './privacy';
+import { DetectorRegistry } from './registry';
+import { AttemptReporter } from './reporter';
+import { fetchRoutePolicies, RouteWatcher } from './routes';
+import { Spotlight } from './spotlight';
+import { mergeStates, SharedState, TabSync } from './sync';
+import { applyTheme, buildThemeCss, THEME_DEFAULTS } from './theme';
+import { Watermark } from './watermark';
+import { ProtectionZones } from './zones';
 
-interface UIStyles {
-    overlayBackground: string;
-    warningBackground: string;
-    warningColor: string;
-    warningFontFamily: string;
-    warningBorderRadius: string;
-    warningBoxShadow: string;
-}
-
-type DetectionMethod = 
-    | 'keyboard' 
-    | 'mobile' 
-    | 'screenCapture' 
-    | 'mediaRecording' 
-    | 'visibilityChange' 
-    | 'devTools';
+// Detections kept for getDiagnostics()
+const HISTORY_LIMIT = 20;
 
 class EnhancedScreenshotPrevention {
     private static instance: EnhancedScreenshotPrevention | null = null;
 
-    private readonly defaultStyles: UIStyles = {
-        overlayBackground: 'rgba(255, 255, 255, 0.5)',
-        warningBackground: '#ff4444',
-        warningColor: '#ffffff',
-        warningFontFamily: 'system-ui, -apple-system, sans-serif',
-        warningBorderRadius: '8px',
-        warningBoxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
-    };
+    /**
+     * The running instance, if any, without creating one. For the bindings
+     * and the testing kit; the slot itself stays private so pages can't
+     * swap it out.
+     * @internal
+     */
+    public static current(): EnhancedScreenshotPrevention | null {
+        return EnhancedScreenshotPrevention.instance;
+    }
+
+    private readonly defaultStyles: UIStyles = { ...THEME_DEFAULTS };
 
     private readonly state = {
         attemptCount: 0,
         isBlurred: false,
         recoveryTimer: null as number | null,
-        lastVisibilityChange: 0,
+        isSetup: false,
+        isPaused: false,
+        isLockPersistent: false,
+        isOverlayShown: false,
+        isWarningShown: false,
+        isPrivacyMasked: false,
+        isRoutePaused: false,
+        // Detector contexts holding a mask, e.g. during an approved screen share
+        maskHolders: new Set<object>(),
+        lockedUntil: 0,
+        lastAttempt: null as AttemptDetails | null,
+        history: [] as AttemptDetails[],
         mousePosition: { x: 0, y: 0 }
     };
 
+    private readonly timings = {
+        createdAt: Date.now(),
+        lockStartedAt: null as number | null,
+        setup: null as number | null,
+        lastLockDelay: null as number | null,
+        lastLockDuration: null as number | null
+    };
+
     private readonly options: Required<ScreenshotPreventionOptions> = {
         blurIntensity: '20px',
         warningMessage: 'Screenshot and screen recording are not allowed.',
@@ -68,7 +128,26 @@ class EnhancedScreenshotPrevention {
         recoveryDelay: 2000,
         debug: false,
         onAttempt: this.defaultAttemptHandler.bind(this),
-        customStyles: {}
+        customStyles: {},
+        detectors: {},
+        reporting: null,
+        escalation: null,
+        watermark: null,
+        tamperProtection: 'report',
+        printPolicy: 'block',
+        printNotice: 'Confidential. Printed copies are traceable to the account that printed them.',
+        privacyScreen: false,
+        spotlight: false,
+        shortcuts: {},
+        routes: null,
+        sync: false,
+        messages: {},
+        locale: null,
+        lockScreen: {},
+        renderWarning: null,
+        onScreenShareRequest: null,
+        protectMedia: false,
+        frames: true
     };
 
     private readonly elements = {
@@ -77,6 +156,67 @@ class EnhancedScreenshotPrevention {
         style: document.createElement('style')
     };
 
+    private readonly zones = new ProtectionZones(() => ({
+        blurIntensity: this.options.blurIntensity,
+        warningMessage: this.getWarningMessage().text,
+        styles: this.defaultStyles
+    }));
+
+    private readonly disposables = new Disposables();
+
+    private readonly focusLock = new FocusLock();
+
+    /** Show and hide frames not yet run, cancelled when protection is torn down */
+    private readonly renderFrames = new Set<number>();
+
+    private readonly lockScreen = new LockScreen(
+        () => ({ lockScreen: this.options.lockScreen, renderWarning: this.options.renderWarning }),
+        () => this.acknowledge()
+    );
+
+    private readonly events = new TypedEmitter<ScreenshotPreventionEventMap>();
+
+    private reporter: AttemptReporter | null = null;
+
+    private escalation: EscalationPolicy | null = null;
+
+    private watermark: Watermark | null = null;
+
+    private unguardWatermark: (() => void) | null = null;
+
+    private privacyScreen: PrivacyScreen | null = null;
+
+    private spotlight: Spotlight | null = null;
+
+    private media: MediaGuard | null = null;
+
+    private frameWatcher: FrameWatcher | null = null;
+
+    private routes: RouteWatcher | null = null;
+
+    private sync: TabSync | null = null;
+
+    // Pre-override values of the options the active route policy changed
+    private routeOverrides: Partial<ScreenshotPreventionOptions> = {};
+
+    private isApplyingRoute = false;
+
+    private readonly integrity = new IntegrityMonitor(checks => this.handleTamper(checks));
+
+    private readonly detectors = new DetectorRegistry(
+        (detector, target): DetectorContext => {
+            const maskHolder = {};
+            return {
+                report: (details?: string, metadata?: AttemptMetadata) =>
+                    this.handleDetection(detector.name, details, metadata),
+                mask: (masked: boolean) => this.setMaskHeld(maskHolder, masked),
+                guardProperty: (object: object, key: string) => this.integrity.guardProperty(key, object, key),
+                window: target,
+                options: this.options
+            };
+        }
+    );
+
     constructor(options: Partial<ScreenshotPreventionOptions> = {}) {
         if (EnhancedScreenshotPrevention.instance) {
             return EnhancedScreenshotPrevention.instance;
@@ -104,6 +244,20 @@ class EnhancedScreenshotPrevention {
         if (options.customStyles) {
             Object.assign(this.defaultStyles, options.customStyles);
         }
+
+        if (options.escalation) {
+            this.escalation = new EscalationPolicy(options.escalation);
+        }
+
+        // `preventInspect` and `preventCopy` remain the switches for their
+        // detectors unless the detectors option says otherwise
+        this.detectors.configure({
+            devTools: Boolean(this.options.preventInspect),
+            clipboard: Boolean(this.options.preventCopy),
+            print: this.options.printPolicy !== 'allow',
+            ...this.options.detectors
+        });
+        builtInDetectors.forEach(detector => this.detectors.register(detector));
     }
 
     private initializeElements(): void {
@@ -114,7 +268,7 @@ class EnhancedScreenshotPrevention {
 
     private initialize(): void {
         if (document.readyState === 'loading') {
-            document.addEventListener('DOMContentLoaded', () => this.setup());
+            this.disposables.listen(document, 'DOMContentLoaded', () => this.setup(), { once: true });
         } else {
             this.setup();
         }
@@ -125,67 +279,98 @@ class EnhancedScreenshotPrevention {
         fragment.appendChild(this.elements.overlay);
         fragment.appendChild(this.elements.warning);
 
-        requestAnimationFrame(() => {
+        const frame = requestAnimationFrame(() => {
             document.body.appendChild(fragment);
             document.head.appendChild(this.elements.style);
             this.setupEventListeners();
-            this.setupMediaProtection();
-            
-            if (this.options.preventInspect) {
-                this.setupDevToolsDetection();
+            this.setupFrames();
+            this.setupReporting();
+            this.setupSync();
+            this.setupWatermark();
+            this.setupIntegrity();
+            this.state.isSetup = true;
+            this.timings.setup = Date.now() - this.timings.createdAt;
+
+            if (!this.state.isPaused) {
+                this.detectors.start();
+                this.startIntegrity();
+                this.startPrivacyScreen();
+                this.startSpotlight();
+                this.startMedia();
             }
+
+            this.setupRoutes();
         });
+        this.disposables.add(() => cancelAnimationFrame(frame));
     }
 
     private createOverlay(): HTMLDivElement {
         const overlay = document.createElement('div');
         overlay.setAttribute('data-screenshot-prevention', 'overlay');
+        overlay.setAttribute('aria-hidden', 'true');
         
-        // Apply blur filter directly to the element style
-        const blurValue = `blur(${this.options.blurIntensity})`;
+        // Layout stays inline; colors come from the theme rules in the stylesheet
         overlay.style.cssText = `
             position: fixed;
             top: 0;
             left: 0;
             width: 100vw;
             height: 100vh;
-            backdrop-filter: ${blurValue};
-            -webkit-backdrop-filter: ${blurValue};
-            background: ${this.defaultStyles.overlayBackground};
             z-index: 2147483647;
             display: none;
             transition: opacity 0.3s ease;
             pointer-events: none;
         `;
+        this.applyBlur(overlay);
+        applyTheme(overlay, this.defaultStyles);
         return overlay;
     }
 
     private createWarning(): HTMLDivElement {
         const warning = document.createElement('div');
         warning.setAttribute('data-screenshot-prevention', 'warning');
+        warning.setAttribute('role', 'alert');
+        warning.setAttribute('aria-live', 'assertive');
+        warning.setAttribute('aria-atomic', 'true');
+        // Focusable from script only, so focus can rest on it during a lock
+        warning.tabIndex = -1;
         warning.style.cssText = `
             position: fixed;
             top: 50%;
             left: 50%;
             transform: translate(-50%, -50%);
-            background: ${this.defaultStyles.warningBackground};
-            color: ${this.defaultStyles.warningColor};
-            padding: 20px;
-            border-radius: ${this.defaultStyles.warningBorderRadius};
-            font-family: ${this.defaultStyles.warningFontFamily};
-            box-shadow: ${this.defaultStyles.warningBoxShadow};
             z-index: 2147483648;
             text-align: center;
             display: none;
             pointer-events: none;
         `;
         warning.textContent = this.options.warningMessage;
+        applyTheme(warning, this.defaultStyles);
         return warning;
     }
 
+    private applyBlur(overlay: HTMLElement): void {
+        const blurValue = `blur(${this.options.blurIntensity})`;
+        overlay.style.backdropFilter = blurValue;
+        overlay.style.setProperty('-webkit-backdrop-filter', blurValue);
+
+        // Without backdrop-filter the translucent background alone would
+        // leave the page readable
+        if (supportsBackdropFilter()) {
+            overlay.removeAttribute('data-screenshot-prevention-fallback');
+        } else {
+            overlay.setAttribute('data-screenshot-prevention-fallback', 'opaque');
+        }
+    }
+
     private createProtectiveStyles(): HTMLStyleElement {
         const style = document.createElement('style');
-        style.textContent = `
+        style.textContent = this.buildProtectiveCss();
+        return style;
+    }
+
+    private buildProtectiveCss(): string {
+        return `
             .screenshot-prevention-active * {
                 -webkit-user-select: none !important;
                 -moz-user-select: none !important;
@@ -194,130 +379,543 @@ class EnhancedScreenshotPrevention {
                 -webkit-touch-callout: none !important;
             }
             
+            ${buildThemeCss()}
+
+            @media (prefers-reduced-motion: reduce) {
+                [data-screenshot-prevention] {
+                    transition: none !important;
+                    animation: none !important;
+                }
+            }
+
             @media print {
-                body { display: none !important; }
+                ${this.buildPrintCss()}
             }
         `;
-        return style;
+    }
+
+    private buildPrintCss(): string {
+        const { printPolicy, printNotice } = this.options;
+
+        if (printPolicy === 'block') {
+            return 'body { display: none !important; }';
+        }
+
+        // Outside `block` the lock UI never belongs on paper
+        const hideUi = `
+                [data-screenshot-prevention]:not([data-screenshot-prevention="watermark"]) {
+                    display: none !important;
+                }`;
+
+        if (printPolicy === 'redact') {
+            return `${hideUi}
+                [data-screenshot-prevention-redact] { visibility: hidden !important; }`;
+        }
+
+        if (printPolicy === 'watermark') {
+            const notice = printNotice
+                .replace(/\\/g, '\\\\')
+                .replace(/"/g, '\\"')
+                .replace(/\n/g, '\\A ');
+
+            return `${hideUi}
+                [data-screenshot-prevention="watermark"] {
+                    display: block !important;
+                    -webkit-print-color-adjust: exact;
+                    print-color-adjust: exact;
+                }
+                body::after {
+                    content: "${notice}";
+                    display: block;
+                    margin-top: 24px;
+                    font-size: 10px;
+                    white-space: pre-wrap;
+                }`;
+        }
+
+        return hideUi;
     }
 
     private setupEventListeners(): void {
-        const eventOptions = { passive: true };
+        this.disposables.listen(document, 'mousemove', (e) => this.handleMouseMove(e as MouseEvent), { passive: true });
+    }
 
-        document.addEventListener('keydown', this.handleKeyboardEvent.bind(this), eventOptions);
-        document.addEventListener('visibilitychange', this.handleVisibilityChange.bind(this), eventOptions);
-        document.addEventListener('mousemove', this.handleMouseMove.bind(this), eventOptions);
+    private setupFrames(): void {
+        this.frameWatcher?.stop();
+        this.frameWatcher = null;
 
-        if ('visualViewport' in window && window.visualViewport) {
-            window.visualViewport.addEventListener('resize', 
-                this.debounce(this.handleViewportResize.bind(this), 100),
-                eventOptions
-            );
+        const { frames } = this.options;
+        if (!frames) return;
+
+        this.frameWatcher = new FrameWatcher(frames === true ? {} : frames, {
+            attach: target => this.detectors.addFrame(target),
+            detach: target => this.detectors.removeFrame(target),
+            report: (method, details, origin) => this.handleFrameReport(method, details, origin)
+        });
+        this.frameWatcher.start();
+    }
+
+    private handleFrameReport(method: DetectionMethod, details: string | undefined, origin: string): void {
+        // Frames follow the parent's detector toggles
+        if (!this.detectors.isEnabled(method)) return;
+
+        this.handleDetection(method, details ? `${details} (frame ${origin})` : `Reported by frame ${origin}`);
+    }
+
+    private setupReporting(): void {
+        this.reporter?.stop();
+        this.reporter = null;
+
+        if (!this.options.reporting) return;
+
+        const reporter = new AttemptReporter(this.options.reporting, () => ({
+            mousePosition: this.state.mousePosition
+        }));
+        reporter.start();
+        this.reporter = reporter;
+    }
+
+    private setupWatermark(): void {
+        this.unguardWatermark?.();
+        this.unguardWatermark = null;
+        this.watermark?.stop();
+        this.watermark = null;
+
+        if (!this.options.watermark) return;
+
+        const watermark = new Watermark(this.options.watermark);
+        watermark.setLocked(this.isMasked());
+        watermark.start(document.body);
+        this.watermark = watermark;
+        this.unguardWatermark = this.integrity.guardElement('watermark', watermark.element, () => document.body, () => ({
+            display: watermark.isVisible ? 'block' : 'none',
+            visibility: '',
+            opacity: ''
+        }));
+    }
+
+    private setupIntegrity(): void {
+        const lockStyles = (shown: () => boolean) => () => ({
+            display: shown() ? 'block' : 'none',
+            visibility: '',
+            opacity: ''
+        });
+
+        this.integrity.guardElement('overlay', this.elements.overlay, () => document.body,
+            lockStyles(() => this.state.isOverlayShown));
+        this.integrity.guardElement('warning', this.elements.warning, () => document.body,
+            lockStyles(() => this.state.isWarningShown));
+        this.integrity.guardElement('style', this.elements.style, () => document.head);
+        this.integrity.add({
+            name: 'bodyClass',
+            isIntact: () => !this.state.isBlurred || document.body.classList.contains('screenshot-prevention-active'),
+            restore: () => document.body.classList.add('screenshot-prevention-active')
+        });
+    }
+
+    private startIntegrity(): void {
+        if (this.options.tamperProtection === 'off') {
+            this.integrity.stop();
+        } else {
+            this.integrity.start();
         }
     }
 
-    private setupMediaProtection(): void {
-        if (navigator.mediaDevices && navigator.mediaDevices.getDisplayMedia) {
-            const originalGetDisplayMedia = navigator.mediaDevices.getDisplayMedia;
-            navigator.mediaDevices.getDisplayMedia = async (...args: any[]) => {
-                this.handleDetection('screenCapture', 'Screen capture attempted');
-                throw new Error('Screen capture is not allowed');
-            };
+    private handleTamper(checks: IntegrityCheck[]): void {
+        const level: TamperProtectionLevel = this.options.tamperProtection;
+        if (level === 'off' || level === 'restore') return;
+
+        if (level === 'lock') {
+            this.state.isLockPersistent = true;
         }
 
-        if ('mediaSession' in navigator && navigator.mediaSession) {
-            navigator.mediaSession.setActionHandler('play', () => {
-                this.handleDetection('mediaRecording', 'Media recording detected');
+        this.handleDetection('tamper', `Tampering detected: ${checks.map(check => check.name).join(', ')}`);
+    }
+
+    private startPrivacyScreen(): void {
+        this.stopPrivacyScreen();
+
+        const { privacyScreen } = this.options;
+        if (!privacyScreen) return;
+
+        this.privacyScreen = new PrivacyScreen(
+            privacyScreen === true ? {} : privacyScreen,
+            (masked, reason) => this.handlePrivacyChange(masked, reason)
+        );
+        this.privacyScreen.start();
+    }
+
+    private stopPrivacyScreen(): void {
+        this.privacyScreen?.stop();
+        this.privacyScreen = null;
+    }
+
+    private startSpotlight(): void {
+        this.stopSpotlight();
+
+        const { spotlight } = this.options;
+        if (!spotlight) return;
+
+        this.spotlight = new Spotlight(spotlight === true ? {} : spotlight, this.options.blurIntensity);
+        this.spotlight.start();
+        this.spotlight.setSuspended(this.isMasked());
+    }
+
+    private stopSpotlight(): void {
+        this.spotlight?.stop();
+        this.spotlight = null;
+    }
+
+    private startMedia(): void {
+        this.stopMedia();
+
+        const { protectMedia } = this.options;
+        if (!protectMedia) return;
+
+        this.media = new MediaGuard(protectMedia === true ? {} : protectMedia);
+        this.media.start();
+        this.media.setLocked(this.state.isBlurred);
+    }
+
+    private stopMedia(): void {
+        this.media?.stop();
+        this.media = null;
+    }
+
+    private setupRoutes(): void {
+        this.stopRoutes();
+
+        const { routes } = this.options;
+        if (!routes) return;
+
+        this.routes = new RouteWatcher(routes, policy => this.applyRoutePolicy(policy));
+        this.routes.start();
+
+        if (routes.source) {
+            this.loadRoutePolicies(routes.source).catch(error => {
+                console.error('[EnhancedScreenshotPrevention] Could not load route policies', error);
             });
         }
     }
 
-    private setupDevToolsDetection(): void {
-        const threshold = 160;
-        let devToolsTimeout: number;
+    private stopRoutes(): void {
+        if (!this.routes) return;
 
-        const checkDevTools = () => {
-            const windowWidth = window.outerWidth - window.innerWidth > threshold;
-            const windowHeight = window.outerHeight - window.innerHeight > threshold;
-            
-            if (windowWidth || windowHeight) {
-                this.handleDetection('devTools', 'Developer tools detected');
-            }
-        };
+        this.routes.stop();
+        this.routes = null;
+        this.applyRoutePolicy(null);
+    }
+
+    private applyRoutePolicy(policy: RoutePolicy | null): void {
+        const restore = this.routeOverrides as Record<string, unknown>;
+        const current = this.options as Record<string, unknown>;
+        const overrides = (policy?.options ?? {}) as Record<string, unknown>;
 
-        window.addEventListener('resize', () => {
-            window.clearTimeout(devToolsTimeout);
-            devToolsTimeout = window.setTimeout(checkDevTools, 100);
+        // Put back what the previous policy changed, then apply the new one;
+        // the value to restore later is the one from before any policy
+        const nextOverrides: Record<string, unknown> = {};
+        Object.keys(overrides).forEach(key => {
+            nextOverrides[key] = key in restore ? restore[key] : current[key];
         });
-    }
+        const changes = { ...restore, ...overrides };
+        this.routeOverrides = nextOverrides;
 
-    private handleKeyboardEvent(e: KeyboardEvent): void {
-        const isWindowsKeyPressed = e.getModifierState('Meta') || e.getModifierState('OS');
-        
-        const isScreenshotCombo = 
-            e.key === 'PrintScreen' ||
-            ((e.metaKey || e.ctrlKey) && e.shiftKey && ['3', '4', '5'].includes(e.key)) ||
-            ((e.metaKey || isWindowsKeyPressed) && e.shiftKey && e.key === 'S');
+        if (Object.keys(changes).length > 0) {
+            this.isApplyingRoute = true;
+            try {
+                this.update(changes);
+            } finally {
+                this.isApplyingRoute = false;
+            }
+        }
 
-        if (isScreenshotCombo) {
-            e.preventDefault();
-            this.handleDetection('keyboard', 'Screenshot shortcut detected');
+        if (policy?.protect === false) {
+            if (!this.state.isPaused) {
+                this.pause();
+                this.state.isRoutePaused = true;
+            }
+        } else if (this.state.isRoutePaused) {
+            this.state.isRoutePaused = false;
+            this.resume();
         }
     }
 
-    private handleVisibilityChange(): void {
-        const now = Date.now();
-        const timeDiff = now - this.state.lastVisibilityChange;
-        
-        if (!document.hidden && timeDiff < 1000) {
-            this.handleDetection('visibilityChange', 'Rapid visibility change detected');
+    // Masking for privacy is deliberately not an attempt: alt-tabbing away
+    // must not inflate attemptCount or trigger escalation
+    private handlePrivacyChange(masked: boolean, reason: PrivacyMaskReason | null): void {
+        this.state.isPrivacyMasked = masked;
+        this.renderMask();
+        this.emit('privacyChange', { masked, reason });
+    }
+
+    private setMaskHeld(holder: object, masked: boolean): void {
+        const { maskHolders } = this.state;
+        if (masked === maskHolders.has(holder)) return;
+
+        if (masked) {
+            maskHolders.add(holder);
+        } else {
+            maskHolders.delete(holder);
         }
-        
-        this.state.lastVisibilityChange = now;
+        this.renderMask();
     }
 
     private handleMouseMove(e: MouseEvent): void {
         this.state.mousePosition = { x: e.clientX, y: e.clientY };
     }
 
-    private handleViewportResize(): void {
-        if (!window.visualViewport) return;
+    private handleDetection(method: DetectionMethod, details?: string, metadata?: AttemptMetadata): void {
+        if (this.state.isPaused) return;
 
-        const viewportWidth = window.visualViewport.width;
-        const windowWidth = window.outerWidth;
-        
-        if (Math.abs(viewportWidth - windowWidth) > 50) {
-            this.handleDetection('mobile', 'Mobile screenshot detected');
+        // Allowed activity is reported like an attempt but neither counts
+        // toward escalation nor locks the page
+        if (metadata?.allowed) {
+            const event: AttemptDetails = {
+                count: this.state.attemptCount,
+                method,
+                timestamp: Date.now(),
+                details,
+                ...metadata
+            };
+            this.recordHistory(event);
+            this.options.onAttempt(event);
+            this.reporter?.enqueue(event);
+            this.emit('attempt', event);
+            return;
         }
-    }
 
-    private handleDetection(method: DetectionMethod, details?: string): void {
         this.state.attemptCount++;
 
         if (this.state.recoveryTimer !== null) {
             window.clearTimeout(this.state.recoveryTimer);
         }
 
-        requestAnimationFrame(() => {
-            this.elements.overlay.style.display = 'block';
-            this.elements.warning.style.display = 'block';
-            document.body.classList.add('screenshot-prevention-active');
-        });
-
-        this.options.onAttempt({
+        const attempt: AttemptDetails = {
             count: this.state.attemptCount,
             method,
             timestamp: Date.now(),
-            details
+            details,
+            ...metadata
+        };
+        this.state.lastAttempt = attempt;
+        this.recordHistory(attempt);
+
+        const escalation = this.escalation?.record(attempt);
+        if (escalation?.persistent) {
+            this.state.isLockPersistent = true;
+        }
+
+        // A persistent lock stays up until reset(). The end time is set
+        // before the warning renders so the countdown starts from it
+        if (this.state.isLockPersistent) {
+            this.state.recoveryTimer = null;
+        } else {
+            const lockDuration = Math.max(this.options.recoveryDelay, escalation?.lockDuration ?? 0);
+            this.scheduleRecovery(attempt.timestamp + lockDuration, attempt.timestamp);
+        }
+
+        this.scheduleRender(() => this.showProtection());
+
+        this.options.onAttempt(attempt);
+        this.reporter?.enqueue(attempt);
+        this.emit('attempt', attempt);
+
+        escalation?.escalations.forEach(details => {
+            this.options.escalation?.onEscalate?.(details);
+            this.emit('escalate', details);
         });
 
+        this.sync?.publish(this.getSharedState());
+    }
+
+    private recordHistory(attempt: AttemptDetails): void {
+        const { history } = this.state;
+        history.push(attempt);
+        if (history.length > HISTORY_LIMIT) {
+            history.shift();
+        }
+    }
+
+    /** Keeps the lock until `lockedUntil`, or later if another tab asked for longer */
+    private scheduleRecovery(lockedUntil: number, now = Date.now()): void {
+        this.state.lockedUntil = Math.max(this.state.lockedUntil, lockedUntil);
+
+        if (this.state.recoveryTimer !== null) {
+            window.clearTimeout(this.state.recoveryTimer);
+        }
+
         this.state.recoveryTimer = window.setTimeout(() => {
-            requestAnimationFrame(() => {
-                this.elements.overlay.style.display = 'none';
-                this.elements.warning.style.display = 'none';
-                document.body.classList.remove('screenshot-prevention-active');
-            });
-        }, this.options.recoveryDelay);
+            this.scheduleRender(() => this.hideProtection());
+        }, this.state.lockedUntil - now);
+    }
+
+    private getSharedState(): SharedState {
+        return {
+            count: this.state.attemptCount,
+            lockedUntil: this.state.lockedUntil,
+            persistent: this.state.isLockPersistent
+        };
+    }
+
+    private setupSync(): void {
+        this.sync?.stop();
+        this.sync = null;
+
+        const { sync } = this.options;
+        if (!sync) return;
+
+        this.sync = new TabSync(sync === true ? {} : sync, {
+            getState: () => this.getSharedState(),
+            onState: state => this.applySharedState(state),
+            onReset: () => this.resetState()
+        });
+        this.applySharedState(this.sync.start());
+    }
+
+    /** Takes over the count and any running lock from another tab or a previous page view */
+    private applySharedState(shared: SharedState): void {
+        const now = Date.now();
+        const merged = mergeStates(this.getSharedState(), shared);
+        this.state.attemptCount = merged.count;
+        this.state.isLockPersistent = merged.persistent;
+
+        if (this.state.isPaused || (!merged.persistent && merged.lockedUntil <= now)) return;
+
+        if (merged.persistent) {
+            if (this.state.recoveryTimer !== null) {
+                window.clearTimeout(this.state.recoveryTimer);
+                this.state.recoveryTimer = null;
+            }
+        } else {
+            this.scheduleRecovery(merged.lockedUntil, now);
+        }
+
+        this.scheduleRender(() => this.showProtection());
+    }
+
+    private scheduleRender(render: () => void): void {
+        // Test environments may run the frame before it returns its id
+        let ran = false;
+        let frame = 0;
+        frame = requestAnimationFrame(() => {
+            ran = true;
+            this.renderFrames.delete(frame);
+            render();
+        });
+        if (!ran) {
+            this.renderFrames.add(frame);
+        }
+    }
+
+    private cancelRenders(): void {
+        this.renderFrames.forEach(frame => cancelAnimationFrame(frame));
+        this.renderFrames.clear();
+    }
+
+    private showProtection(): void {
+        const wasBlurred = this.state.isBlurred;
+        this.state.isBlurred = true;
+
+        this.renderWarning();
+        this.renderMask();
+        document.body.classList.add('screenshot-prevention-active');
+
+        if (!wasBlurred) {
+            const now = Date.now();
+            this.timings.lockStartedAt = now;
+            if (this.state.lastAttempt) {
+                this.timings.lastLockDelay = now - this.state.lastAttempt.timestamp;
+                this.emit('lockStart', this.state.lastAttempt);
+            }
+        }
+    }
+
+    private hideProtection(): void {
+        const wasBlurred = this.state.isBlurred;
+        this.state.isBlurred = false;
+
+        this.renderMask();
+        document.body.classList.remove('screenshot-prevention-active');
+
+        if (wasBlurred && this.timings.lockStartedAt !== null) {
+            this.timings.lastLockDuration = Date.now() - this.timings.lockStartedAt;
+            this.timings.lockStartedAt = null;
+        }
+
+        if (wasBlurred && this.state.lastAttempt) {
+            this.emit('lockEnd', this.state.lastAttempt);
+        }
+    }
+
+    private isMasked(): boolean {
+        return this.state.isBlurred || this.state.isPrivacyMasked || this.state.maskHolders.size > 0;
+    }
+
+    private renderMask(): void {
+        const masked = this.isMasked();
+
+        // Registered zones take over from the full-page overlay so the rest
+        // of the page stays usable during the lock
+        const useZones = masked && this.zones.size > 0;
+        this.state.isOverlayShown = masked && !useZones;
+        this.state.isWarningShown = this.state.isOverlayShown && this.state.isBlurred;
+
+        if (useZones) {
+            this.zones.show();
+        } else {
+            this.zones.hide();
+        }
+
+        this.elements.overlay.style.display = this.state.isOverlayShown ? 'block' : 'none';
+        this.elements.warning.style.display = this.state.isWarningShown ? 'block' : 'none';
+        this.watermark?.setLocked(masked);
+        this.spotlight?.setSuspended(masked);
+        this.media?.setLocked(this.state.isBlurred);
+
+        if (this.state.isWarningShown) {
+            this.focusLock.engage(this.lockScreen.focusTarget(this.elements.warning));
+        } else {
+            this.lockScreen.stop();
+            this.focusLock.release();
+        }
+    }
+
+    private getWarningMessage(): ResolvedMessage {
+        return resolveWarningMessage(
+            this.options.messages,
+            this.options.locale ?? detectLocale(),
+            this.state.lastAttempt?.method ?? null,
+            this.options.warningMessage
+        );
+    }
+
+    private renderWarning(): void {
+        const { text, lang } = this.getWarningMessage();
+        const { warning } = this.elements;
+
+        // Replacing the content is what makes screen readers announce the alert
+        this.lockScreen.render(warning, {
+            message: text,
+            details: this.state.lastAttempt,
+            getLockedUntil: () => this.state.isLockPersistent ? null : this.state.lockedUntil
+        });
+        if (lang) {
+            warning.setAttribute('lang', lang);
+        } else {
+            warning.removeAttribute('lang');
+        }
+
+        if (this.zones.size > 0) {
+            this.zones.refresh();
+        }
+    }
+
+    private emit<K extends ScreenshotPreventionEvent>(
+        event: K,
+        payload: ScreenshotPreventionEventMap[K]
+    ): void {
+        this.events.emit(event, payload);
+        document.dispatchEvent(new CustomEvent(`screenshot-prevention:${event}`, { detail: payload }));
     }
 
     private defaultAttemptHandler(details: AttemptDetails): void {
@@ -326,55 +924,228 @@ class EnhancedScreenshotPrevention {
         }
     }
 
-    private debounce<T extends (...args: any[]) => void>(
-        fn: T,
-        delay: number
-    ): (...args: Parameters<T>) => void {
-        let timeoutId: number;
-        
-        return (...args: Parameters<T>) => {
-            window.clearTimeout(timeoutId);
-            timeoutId = window.setTimeout(() => fn.apply(this, args), delay);
-        };
-    }
-
     // Public API
     public getAttemptCount(): number {
         return this.state.attemptCount;
     }
 
+    public flushReports(): Promise<void> {
+        return this.reporter ? this.reporter.flush() : Promise.resolve();
+    }
+
+    /** Fetches and validates a policy document, then applies it; rejects on invalid fields */
+    public async loadRoutePolicies(url: string): Promise<void> {
+        const policies = await fetchRoutePolicies(url);
+        this.options.routes = { ...this.options.routes, policies };
+
+        if (this.routes) {
+            this.routes.setPolicies(policies);
+        } else if (this.state.isSetup) {
+            this.setupRoutes();
+        }
+    }
+
+    public on<K extends ScreenshotPreventionEvent>(
+        event: K,
+        handler: EventHandler<ScreenshotPreventionEventMap[K]>
+    ): () => void {
+        return this.events.on(event, handler);
+    }
+
+    public once<K extends ScreenshotPreventionEvent>(
+        event: K,
+        handler: EventHandler<ScreenshotPreventionEventMap[K]>
+    ): () => void {
+        return this.events.once(event, handler);
+    }
+
+    public off<K extends ScreenshotPreventionEvent>(
+        event: K,
+        handler: EventHandler<ScreenshotPreventionEventMap[K]>
+    ): void {
+        this.events.off(event, handler);
+    }
+
     public reset(): void {
+        this.resetState();
+        this.sync?.reset();
+    }
+
+    /** Ends the current lock early, as the acknowledge button does; persistent locks stay */
+    public acknowledge(): void {
+        if (!this.state.isBlurred || this.state.isLockPersistent) return;
+
+        if (this.state.recoveryTimer !== null) {
+            window.clearTimeout(this.state.recoveryTimer);
+            this.state.recoveryTimer = null;
+        }
+        this.state.lockedUntil = 0;
+
+        this.scheduleRender(() => this.hideProtection());
+    }
+
+    private resetState(): void {
+        const previousCount = this.state.attemptCount;
         this.state.attemptCount = 0;
+        this.state.isLockPersistent = false;
+        this.state.lockedUntil = 0;
+        this.escalation?.reset();
         
         if (this.state.recoveryTimer !== null) {
             window.clearTimeout(this.state.recoveryTimer);
             this.state.recoveryTimer = null;
         }
 
-        requestAnimationFrame(() => {
-            this.elements.overlay.style.display = 'none';
-            this.elements.warning.style.display = 'none';
-            document.body.classList.remove('screenshot-prevention-active');
+        this.scheduleRender(() => this.hideProtection());
+        this.emit('reset', { previousCount });
+    }
+
+    public pause(): void {
+        // A manual pause outlasts the route that may have paused already
+        this.state.isRoutePaused = false;
+        if (this.state.isPaused) return;
+
+        this.state.isPaused = true;
+        this.detectors.stop();
+        this.integrity.stop();
+        this.stopPrivacyScreen();
+        this.stopSpotlight();
+        this.stopMedia();
+
+        if (this.state.recoveryTimer !== null) {
+            window.clearTimeout(this.state.recoveryTimer);
+            this.state.recoveryTimer = null;
+        }
+
+        this.cancelRenders();
+        this.scheduleRender(() => this.hideProtection());
+    }
+
+    public resume(): void {
+        this.state.isRoutePaused = false;
+        if (!this.state.isPaused) return;
+
+        this.state.isPaused = false;
+
+        if (this.state.isSetup) {
+            this.detectors.start();
+            this.startIntegrity();
+            this.startPrivacyScreen();
+            this.startSpotlight();
+            this.startMedia();
+        }
+    }
+
+    public isActive(): boolean {
+        return this.state.isSetup && !this.state.isPaused;
+    }
+
+    public registerDetector(detector: Detector): void {
+        this.detectors.register(detector);
+    }
+
+    public unregisterDetector(name: DetectionMethod): void {
+        this.detectors.unregister(name);
+    }
+
+    public enableDetector(name: DetectionMethod): void {
+        this.detectors.setEnabled(name, true);
+    }
+
+    public disableDetector(name: DetectionMethod): void {
+        this.detectors.setEnabled(name, false);
+    }
+
+    public isDetectorEnabled(name: DetectionMethod): boolean {
+        return this.detectors.has(name) && this.detectors.isEnabled(name);
+    }
+
+    /** What the browser supports and what is running, per detector and feature */
+    public getCapabilities(): Capabilities {
+        const running = this.isActive();
+        const detectors: Capabilities['detectors'] = {};
+        this.detectors.names().forEach(name => {
+            detectors[name] = capabilityStatus(
+                this.detectors.isSupported(name),
+                this.detectors.isEnabled(name),
+                this.detectors.isAttached(name)
+            );
         });
+
+        const { options } = this;
+        const feature = (name: ProtectionFeature, enabled: boolean, active: boolean, fallback?: CapabilityFallback) =>
+            capabilityStatus(featureSupport[name](), enabled, active, fallback);
+
+        return {
+            detectors,
+            features: {
+                blur: feature('blur', true, running, 'opaque'),
+                zones: feature('zones', this.zones.size > 0, running, 'opaque'),
+                spotlight: feature('spotlight', Boolean(options.spotlight), this.spotlight !== null),
+                privacyScreen: feature('privacyScreen', Boolean(options.privacyScreen), this.privacyScreen !== null),
+                protectMedia: feature('protectMedia', Boolean(options.protectMedia), this.media !== null),
+                watermark: feature('watermark', Boolean(options.watermark), this.watermark !== null),
+                frames: feature('frames', Boolean(options.frames), this.frameWatcher !== null),
+                sync: feature('sync', Boolean(options.sync), this.sync !== null),
+                reporting: feature('reporting', Boolean(options.reporting), this.reporter !== null),
+                tamperProtection: feature('tamperProtection', options.tamperProtection !== 'off', this.integrity.isRunning)
+            }
+        };
+    }
+
+    /** A snapshot for troubleshooting: state, capabilities, recent detections and timings */
+    public getDiagnostics(): Diagnostics {
+        const { state } = this;
+
+        return {
+            timestamp: Date.now(),
+            userAgent: navigator.userAgent,
+            active: this.isActive(),
+            paused: state.isPaused,
+            locked: state.isBlurred,
+            persistent: state.isLockPersistent,
+            masked: this.isMasked(),
+            attemptCount: state.attemptCount,
+            lockedUntil: state.isBlurred && !state.isLockPersistent ? state.lockedUntil : null,
+            capabilities: this.getCapabilities(),
+            history: state.history.map(attempt => ({ ...attempt })),
+            timings: {
+                setup: this.timings.setup,
+                lastLockDelay: this.timings.lastLockDelay,
+                lastLockDuration: this.timings.lastLockDuration
+            }
+        };
+    }
+
+    public protect(element: HTMLElement, options: ProtectionZoneOptions = {}): void {
+        this.zones.add(element, options);
+    }
+
+    public unprotect(element: HTMLElement): void {
+        this.zones.remove(element);
     }
 
     public update(options: Partial<ScreenshotPreventionOptions>): void {
-        // Store old options for comparison
-        const oldOptions = { ...this.options };
-        
+        // An explicit update outranks the route policy until the next navigation
+        if (!this.isApplyingRoute) {
+            Object.keys(options).forEach(key => {
+                delete (this.routeOverrides as Record<string, unknown>)[key];
+            });
+        }
+
         // Update options
         Object.assign(this.options, options);
         
         // Update UI elements based on changed options
-        if (options.warningMessage && this.elements.warning) {
-            this.elements.warning.textContent = options.warningMessage;
+        if (options.warningMessage || options.messages || options.locale !== undefined) {
+            this.renderWarning();
+        } else if ((options.lockScreen || options.renderWarning !== undefined) && this.state.isBlurred) {
+            this.renderWarning();
+            this.renderMask();
         }
         
-        if (options.blurIntensity && this.elements.overlay) {
-            const blurValue = `blur(${options.blurIntensity})`;
-            // Update both standard and vendor prefixed properties
-            this.elements.overlay.style.backdropFilter = blurValue;
-            this.elements.overlay.style.backdropFilter = blurValue;
+        if (options.blurIntensity) {
+            this.applyBlur(this.elements.overlay);
         }
 
         if (options.customStyles) {
@@ -382,57 +1153,277 @@ class EnhancedScreenshotPrevention {
             this.updateStyles();
         }
 
-        // Handle any additional option changes that require runtime updates
-        if (options.preventCopy !== undefined && options.preventCopy !== oldOptions.preventCopy) {
-            if (options.preventCopy) {
-                document.body.classList.add('screenshot-prevention-active');
+
+        if (options.recoveryDelay !== undefined && this.state.recoveryTimer !== null) {
+            // A longer delay extends the running lock; a shorter one must not
+            // cut short an escalated lock, e.g. on every route change
+            const lockStart = this.state.lastAttempt?.timestamp ?? Date.now();
+            this.scheduleRecovery(lockStart + options.recoveryDelay);
+        }
+
+        if (options.preventInspect !== undefined && options.detectors?.devTools === undefined) {
+            this.detectors.setEnabled('devTools', Boolean(options.preventInspect));
+        }
+
+        if (typeof options.preventInspect === 'object') {
+            // The check interval is read on attach
+            this.detectors.restart('devTools');
+        }
+
+        if (options.preventCopy !== undefined && options.detectors?.clipboard === undefined) {
+            this.detectors.setEnabled('clipboard', Boolean(options.preventCopy));
+        }
+
+        if (options.printPolicy !== undefined && options.detectors?.print === undefined) {
+            this.detectors.setEnabled('print', options.printPolicy !== 'allow');
+        }
+
+        if (options.printPolicy !== undefined || options.printNotice !== undefined) {
+            this.elements.style.textContent = this.buildProtectiveCss();
+        }
+
+        if (options.detectors) {
+            this.detectors.configure(options.detectors);
+        }
+
+        if (options.blurIntensity || options.customStyles) {
+            this.zones.refresh();
+        }
+
+        if (options.escalation !== undefined) {
+            this.escalation = options.escalation ? new EscalationPolicy(options.escalation) : null;
+        }
+
+        if (options.reporting !== undefined && this.state.isSetup) {
+            this.setupReporting();
+        }
+
+        if (options.tamperProtection !== undefined && this.state.isSetup && !this.state.isPaused) {
+            this.startIntegrity();
+        }
+
+        if (options.privacyScreen !== undefined && this.state.isSetup && !this.state.isPaused) {
+            this.startPrivacyScreen();
+        }
+
+        if ((options.spotlight !== undefined || options.blurIntensity) && this.state.isSetup && !this.state.isPaused) {
+            this.startSpotlight();
+        }
+
+        if (options.protectMedia !== undefined && this.state.isSetup && !this.state.isPaused) {
+            this.startMedia();
+        }
+
+        if (options.frames !== undefined && this.state.isSetup) {
+            this.setupFrames();
+        }
+
+        if (options.watermark !== undefined && this.state.isSetup) {
+            if (options.watermark && this.watermark) {
+                this.watermark.configure(options.watermark);
             } else {
-                document.body.classList.remove('screenshot-prevention-active');
+                this.setupWatermark();
             }
         }
 
-        if (options.recoveryDelay !== undefined && this.state.recoveryTimer !== null) {
-            // Reset any active recovery timer with new delay
-            window.clearTimeout(this.state.recoveryTimer);
-            this.state.recoveryTimer = window.setTimeout(() => {
-                this.elements.overlay.style.display = 'none';
-                this.elements.warning.style.display = 'none';
-                document.body.classList.remove('screenshot-prevention-active');
-            }, options.recoveryDelay);
+        if (options.routes !== undefined && this.state.isSetup) {
+            this.setupRoutes();
+        }
+
+        if (options.sync !== undefined && this.state.isSetup) {
+            this.setupSync();
         }
+
+        this.emit('optionsChanged', { options });
     }
 
     private updateStyles(): void {
-        const { overlay, warning } = this.elements;
-        
-        overlay.style.background = this.defaultStyles.overlayBackground;
-        
-        Object.assign(warning.style, {
-            background: this.defaultStyles.warningBackground,
-            color: this.defaultStyles.warningColor,
-            fontFamily: this.defaultStyles.warningFontFamily,
-            borderRadius: this.defaultStyles.warningBorderRadius,
-            boxShadow: this.defaultStyles.warningBoxShadow
-        });
+        applyTheme(this.elements.overlay, this.defaultStyles);
+        applyTheme(this.elements.warning, this.defaultStyles);
     }
 
     public destroy(): void {
         if (this.state.recoveryTimer !== null) {
             window.clearTimeout(this.state.recoveryTimer);
+            this.state.recoveryTimer = null;
         }
 
+        this.integrity.stop();
+        this.detectors.stop();
+        this.stopPrivacyScreen();
+        this.stopSpotlight();
+        this.stopMedia();
+        this.routes?.stop();
+        this.routes = null;
+        this.frameWatcher?.stop();
+        this.frameWatcher = null;
+        this.sync?.stop();
+        this.sync = null;
+        this.disposables.dispose();
+        this.reporter?.stop();
+        this.reporter = null;
+        this.cancelRenders();
+        this.hideProtection();
+        this.watermark?.stop();
+        this.watermark = null;
+
         this.elements.overlay.remove();
         this.elements.warning.remove();
         this.elements.style.remove();
-        
-        document.body.classList.remove('screenshot-prevention-active');
-        EnhancedScreenshotPrevention.instance = null;
+        this.zones.clear();
+        this.state.isSetup = false;
+
+        if (EnhancedScreenshotPrevention.instance === this) {
+            EnhancedScreenshotPrevention.instance = null;
+        }
+
+        this.emit('destroyed', { attemptCount: this.state.attemptCount });
+        this.events.clear();
+    }
+}
+
+/** The public surface of an instance, which the server stub provides too */
+export type ScreenshotPreventionInstance = Pick<EnhancedScreenshotPrevention, keyof EnhancedScreenshotPrevention>;
+
+function inactiveCapabilities(): Capabilities {
+    const features = {} as Record<ProtectionFeature, CapabilityStatus>;
+    protectionFeatures.forEach(name => {
+        features[name] = { supported: false, enabled: false, active: false };
+    });
+    return { detectors: {}, features };
+}
+
+function createServerStub(): ScreenshotPreventionInstance {
+    const noop = () => {};
+
+    return {
+        getAttemptCount: () => 0,
+        flushReports: () => Promise.resolve(),
+        loadRoutePolicies: () => Promise.resolve(),
+        on: () => noop,
+        once: () => noop,
+        off: noop,
+        reset: noop,
+        acknowledge: noop,
+        pause: noop,
+        resume: noop,
+        isActive: () => false,
+        registerDetector: noop,
+        unregisterDetector: noop,
+        enableDetector: noop,
+        disableDetector: noop,
+        isDetectorEnabled: () => false,
+        getCapabilities: () => inactiveCapabilities(),
+        getDiagnostics: () => ({
+            timestamp: Date.now(),
+            userAgent: '',
+            active: false,
+            paused: false,
+            locked: false,
+            persistent: false,
+            masked: false,
+            attemptCount: 0,
+            lockedUntil: null,
+            capabilities: inactiveCapabilities(),
+            history: [],
+            timings: { setup: null, lastLockDelay: null, lastLockDuration: null }
+        }),
+        protect: noop,
+        unprotect: noop,
+        update: noop,
+        destroy: noop
+    };
+}
+
+/**
+ * SSR-safe entry point: returns an inert stub where there is no DOM, such
+ * as during a server render, and the shared instance in the browser
+ */
+export function createScreenshotPrevention(
+    options: Partial<ScreenshotPreventionOptions> = {}
+): ScreenshotPreventionInstance {
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+        return createServerStub();
     }
+
+    return new EnhancedScreenshotPrevention(options);
 }
 
 // Export for different module systems
 if (typeof window !== 'undefined') {
     (window as any).EnhancedScreenshotPrevention = EnhancedScreenshotPrevention;
+
+    // `<script src="..." data-auto-init>`; the tag has to be captured now,
+    // while a JSON config block further down is only read once it is parsed
+    const autoInitScript = findAutoInitScript();
+    if (autoInitScript) {
+        onDomReady(() => createScreenshotPrevention(readDeclarativeOptions(autoInitScript)));
+    }
 }
 
+export {
+    clipboardDetector,
+    devToolsDetector,
+    keyboardDetector,
+    mediaRecordingDetector,
+    mobileDetector,
+    printDetector,
+    screenCaptureDetector,
+    visibilityChangeDetector
+} from './detectors';
+
+export { FRAME_MESSAGE_TYPE } from './frames';
+export type { FrameDetectionMessage } from './frames';
+export { parseRoutePolicies } from './routes';
+export { shortcutProfiles } from './shortcuts';
+
+export type {
+    AttemptDetails,
+    AttemptMetadata,
+    AttemptReport,
+    BuiltInDetectionMethod,
+    Capabilities,
+    CapabilityFallback,
+    CapabilityStatus,
+    CopyProtectionOptions,
+    DetectionMethod,
+    Detector,
+    DetectorContext,
+    DetectorToggles,
+    DevToolsDetectionOptions,
+    DevToolsStrategy,
+    DiagnosticTimings,
+    Diagnostics,
+    EscalationDetails,
+    EscalationOptions,
+    EscalationRule,
+    FrameOptions,
+    LockScreenOptions,
+    MediaProtectionOptions,
+    PrintPolicy,
+    PrivacyMaskReason,
+    PrivacyScreenOptions,
+    ProtectionFeature,
+    ProtectionZoneOptions,
+    ReportingOptions,
+    RoutePolicy,
+    RoutePolicyOptions,
+    RoutingOptions,
+    ScreenSharePolicy,
+    ScreenShareRequest,
+    ScreenshotPreventionEvent,
+    ScreenshotPreventionEventMap,
+    ScreenshotPreventionOptions,
+    ShortcutOptions,
+    ShortcutPlatform,
+    ShortcutRule,
+    SpotlightOptions,
+    SyncOptions,
+    TamperProtectionLevel,
+    UIStyles,
+    WarningMessageCatalog,
+    WarningRenderer,
+    WatermarkOptions
+};
+
 export default EnhancedScreenshotPrevention;
\ No newline at end of file
@@ -0,0 +1,127 @@
+export interface IntegrityCheck {
+    name: string;
+    isIntact(): boolean;
+    restore(): void;
+}
+
+/**
+ * Watches what an instance injected into the page and puts it back when
+ * someone removes or alters it. DOM changes are caught by a MutationObserver;
+ * patched APIs can't be observed, so they are also swept on an interval.
+ * Each sweep reports everything it found at once, so one act of tampering
+ * counts once.
+ */
+export class IntegrityMonitor {
+    private readonly checks = new Set<IntegrityCheck>();
+    private observer: MutationObserver | null = null;
+    private interval: number | null = null;
+    private body: HTMLElement | null = null;
+
+    constructor(
+        private readonly onTamper: (checks: IntegrityCheck[]) => void,
+        private readonly checkInterval = 1000
+    ) {}
+
+    public get isRunning(): boolean {
+        return this.interval !== null;
+    }
+
+    public add(check: IntegrityCheck): () => void {
+        this.checks.add(check);
+        return () => {
+            this.checks.delete(check);
+        };
+    }
+
+    public guardElement(
+        name: string,
+        element: HTMLElement,
+        getParent: () => Node,
+        getStyles: () => Record<string, string> = () => ({})
+    ): () => void {
+        return this.add({
+            name,
+            isIntact: () => {
+                if (element.parentNode !== getParent()) return false;
+
+                const styles = getStyles();
+                return Object.keys(styles).every(
+                    property => element.style.getPropertyValue(property) === styles[property]
+                );
+            },
+            restore: () => {
+                const parent = getParent();
+                if (element.parentNode !== parent) {
+                    parent.appendChild(element);
+                }
+
+                const styles = getStyles();
+                Object.keys(styles).forEach(property => {
+                    element.style.setProperty(property, styles[property]);
+                });
+            }
+        });
+    }
+
+    public guardProperty(name: string, target: object, key: string): () => void {
+        const record = target as Record<string, unknown>;
+        const value = record[key];
+
+        return this.add({
+            name,
+            isIntact: () => record[key] === value,
+            restore: () => {
+                try {
+                    record[key] = value;
+                } catch {
+                    // A non-writable redefinition can't be undone; still reported
+                }
+            }
+        });
+    }
+
+    public start(): void {
+        if (this.isRunning) return;
+
+        // Kept across stop() so a swap while paused isn't taken for tampering
+        this.body = this.body ?? document.body;
+
+        if (typeof MutationObserver !== 'undefined') {
+            this.observer = new MutationObserver(() => this.verify());
+            this.observer.observe(document.documentElement, {
+                childList: true,
+                subtree: true,
+                attributes: true,
+                attributeFilter: ['style', 'class']
+            });
+        }
+
+        this.interval = window.setInterval(() => this.verify(), this.checkInterval);
+    }
+
+    public stop(): void {
+        this.observer?.disconnect();
+        this.observer = null;
+
+        if (this.interval !== null) {
+            window.clearInterval(this.interval);
+            this.interval = null;
+        }
+    }
+
+    public verify(): void {
+        const tampered = Array.from(this.checks).filter(check => !check.isIntact());
+
+        // Apps that navigate by swapping <body> (Turbo, pjax) take our
+        // elements along with the old one; moving in is not tampering
+        const bodyReplaced = document.body !== this.body;
+        this.body = document.body;
+
+        // Restore everything first so a handler that reacts to the report
+        // already sees an intact page
+        tampered.forEach(check => check.restore());
+        if (tampered.length > 0 && !bodyReplaced) {
+            this.onTamper(tampered);
+        }
+    }
+}
@@ -0,0 +1,116 @@
+import { AttemptDetails, LockScreenOptions, WarningRenderer } from './types';
+
+const INTERACTIVE_SELECTOR = 'a[href], button, input, select, textarea, [tabindex]';
+
+export interface LockScreenContent {
+    message: string;
+    details: AttemptDetails | null;
+    /** Epoch ms at which the lock ends, or null while it is persistent */
+    getLockedUntil(): number | null;
+}
+
+interface LockScreenSettings {
+    lockScreen: LockScreenOptions;
+    renderWarning: WarningRenderer | null;
+}
+
+/**
+ * Fills the warning: the message plus an optional countdown, acknowledge
+ * button and contact link, or whatever a custom renderer puts there.
+ */
+export class LockScreen {
+    private countdownTimer: number | null = null;
+    private acknowledgeButton: HTMLButtonElement | null = null;
+
+    constructor(
+        private readonly getSettings: () => LockScreenSettings,
+        private readonly onAcknowledge: () => void
+    ) {}
+
+    /** Where focus should rest while the warning is up */
+    public focusTarget(container: HTMLElement): HTMLElement {
+        return this.acknowledgeButton?.isConnected ? this.acknowledgeButton : container;
+    }
+
+    public render(container: HTMLElement, content: LockScreenContent): void {
+        this.stop();
+        this.acknowledgeButton = null;
+        container.textContent = '';
+
+        const { lockScreen, renderWarning } = this.getSettings();
+        if (renderWarning) {
+            renderWarning(content.details, container);
+        } else {
+            this.renderDefault(container, content, lockScreen);
+        }
+
+        container.style.pointerEvents = lockScreen.pointerEvents ??
+            (container.querySelector(INTERACTIVE_SELECTOR) ? 'auto' : 'none');
+    }
+
+    public stop(): void {
+        if (this.countdownTimer !== null) {
+            window.clearInterval(this.countdownTimer);
+            this.countdownTimer = null;
+        }
+    }
+
+    private renderDefault(container: HTMLElement, content: LockScreenContent, options: LockScreenOptions): void {
+        const message = this.createPart('p', 'message');
+        message.textContent = content.message;
+        container.appendChild(message);
+
+        // A persistent lock has nothing to count down to or acknowledge
+        const isPersistent = content.getLockedUntil() === null;
+
+        if (options.countdown && !isPersistent) {
+            container.appendChild(this.createCountdown(content, options.countdownLabel ?? 'Unlocks in {seconds}s'));
+        }
+
+        if (options.acknowledgeLabel && !isPersistent) {
+            const button = this.createPart('button', 'acknowledge');
+            button.type = 'button';
+            button.textContent = options.acknowledgeLabel;
+            button.addEventListener('click', () => this.onAcknowledge());
+            container.appendChild(button);
+            this.acknowledgeButton = button;
+        }
+
+        if (options.contact) {
+            const paragraph = this.createPart('p', 'contact');
+            const link = document.createElement('a');
+            link.href = options.contact.href;
+            link.textContent = options.contact.label;
+            paragraph.appendChild(link);
+            container.appendChild(paragraph);
+        }
+    }
+
+    private createCountdown(content: LockScreenContent, label: string): HTMLElement {
+        const countdown = this.createPart('p', 'countdown');
+        // Ticking every second would flood screen readers through the alert
+        countdown.setAttribute('aria-hidden', 'true');
+
+        const tick = () => {
+            const lockedUntil = content.getLockedUntil() ?? 0;
+            const seconds = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+            countdown.textContent = label.replace('{seconds}', String(seconds));
+
+            if (seconds === 0) {
+                this.stop();
+            }
+            return seconds;
+        };
+
+        if (tick() > 0) {
+            this.countdownTimer = window.setInterval(tick, 1000);
+        }
+        return countdown;
+    }
+
+    private createPart<K extends keyof HTMLElementTagNameMap>(tag: K, part: string): HTMLElementTagNameMap[K] {
+        const element = document.createElement(tag);
+        element.setAttribute('data-screenshot-prevention-part', part);
+        return element;
+    }
+}
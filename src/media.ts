@@ -0,0 +1,125 @@
+import { Disposables } from './disposables';
+import { MediaProtectionOptions } from './types';
+
+interface HiddenStyle {
+    value: string;
+    priority: string;
+}
+
+/**
+ * Takes media out of view during a lock: the overlay only blurs what is
+ * beneath it, so video keeps playing and canvases keep their pixels unless
+ * they are paused, hidden or cleared as well.
+ */
+export class MediaGuard {
+    private readonly options: Required<MediaProtectionOptions>;
+    private readonly disposables = new Disposables();
+    private readonly hidden = new Map<HTMLElement, HiddenStyle>();
+    private paused: HTMLMediaElement[] = [];
+    private locked = false;
+
+    constructor(options: MediaProtectionOptions) {
+        this.options = {
+            selector: 'video, audio, canvas',
+            playback: 'pause',
+            pictureInPicture: 'exit',
+            canvas: 'hide',
+            ...options
+        };
+    }
+
+    public start(): void {
+        if (this.options.pictureInPicture === 'block') {
+            // Browsers that honour the attribute hide the button; the
+            // listener catches requests made from script
+            document.querySelectorAll<HTMLVideoElement>('video').forEach(video => {
+                if (video.disablePictureInPicture) return;
+
+                video.disablePictureInPicture = true;
+                this.disposables.add(() => {
+                    video.disablePictureInPicture = false;
+                });
+            });
+            this.disposables.listen(document, 'enterpictureinpicture', () => this.exitPictureInPicture(), { capture: true });
+        }
+
+        this.disposables.add(() => this.setLocked(false));
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+    }
+
+    public setLocked(locked: boolean): void {
+        if (this.locked === locked) return;
+        this.locked = locked;
+
+        if (locked) {
+            this.lock();
+        } else {
+            this.unlock();
+        }
+    }
+
+    private lock(): void {
+        const { selector, playback, canvas } = this.options;
+
+        document.querySelectorAll<HTMLElement>(selector).forEach(element => {
+            if (element instanceof HTMLMediaElement) {
+                if (playback !== 'none' && !element.paused) {
+                    element.pause();
+                    this.paused.push(element);
+                }
+                if (playback === 'blank' && element instanceof HTMLVideoElement) {
+                    this.hide(element);
+                }
+            } else if (element instanceof HTMLCanvasElement) {
+                if (canvas === 'hide') {
+                    this.hide(element);
+                } else if (canvas === 'clear') {
+                    // Resizing resets the bitmap for 2D and WebGL alike
+                    // without creating a context the page did not ask for
+                    element.width = element.width;
+                }
+            }
+        });
+
+        if (this.options.pictureInPicture !== 'allow') {
+            this.exitPictureInPicture();
+        }
+    }
+
+    private unlock(): void {
+        this.hidden.forEach(({ value, priority }, element) => {
+            element.style.setProperty('visibility', value, priority);
+        });
+        this.hidden.clear();
+
+        this.paused
+            .filter(element => element.isConnected)
+            .forEach(element => {
+                element.play()?.catch(() => {
+                    // Autoplay rules may refuse; the user can press play
+                });
+            });
+        this.paused = [];
+    }
+
+    private hide(element: HTMLElement): void {
+        if (this.hidden.has(element)) return;
+
+        this.hidden.set(element, {
+            value: element.style.getPropertyValue('visibility'),
+            priority: element.style.getPropertyPriority('visibility')
+        });
+        element.style.setProperty('visibility', 'hidden', 'important');
+    }
+
+    private exitPictureInPicture(): void {
+        if (document.pictureInPictureElement) {
+            document.exitPictureInPicture().catch(() => {
+                // Already left
+            });
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import { DetectionMethod, WarningMessageCatalog } from './types';
+
+export interface ResolvedMessage {
+    text: string;
+    /** Locale the text was found under, or null for the `warningMessage` fallback */
+    lang: string | null;
+}
+
+export function detectLocale(): string {
+    return typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en';
+}
+
+/** `de-AT` falls back to `de` */
+function localeChain(locale: string): string[] {
+    const base = locale.split('-')[0];
+    return base && base !== locale ? [locale, base] : [locale];
+}
+
+/**
+ * Picks the warning for a detection: the method's entry for the locale or
+ * its base language, then that locale's `default`, then `fallback`
+ */
+export function resolveWarningMessage(
+    catalog: WarningMessageCatalog,
+    locale: string,
+    method: DetectionMethod | null,
+    fallback: string
+): ResolvedMessage {
+    const chain = localeChain(locale);
+    const keys: Array<DetectionMethod | 'default'> = method ? [method, 'default'] : ['default'];
+
+    for (const key of keys) {
+        for (const lang of chain) {
+            const text = catalog[lang]?.[key];
+            if (text) return { text, lang };
+        }
+    }
+
+    return { text: fallback, lang: null };
+}
@@ -0,0 +1,123 @@
+import { Disposables } from './disposables';
+import { PrivacyMaskReason, PrivacyScreenOptions } from './types';
+
+const INTERACTION_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'touchstart', 'wheel'];
+
+/**
+ * Masks the page whenever it loses focus or sits idle. Capture tools
+ * usually steal focus before they grab the screen, so masking on blur
+ * covers the moment of capture instead of reporting it afterwards.
+ */
+export class PrivacyScreen {
+    private readonly options: Required<PrivacyScreenOptions>;
+    private readonly disposables = new Disposables();
+    private reason: PrivacyMaskReason | null = null;
+    private idleTimer: number | null = null;
+
+    constructor(
+        options: PrivacyScreenOptions,
+        private readonly onChange: (masked: boolean, reason: PrivacyMaskReason | null) => void
+    ) {
+        this.options = {
+            maskOnBlur: true,
+            idleTimeout: 0,
+            ...options
+        };
+    }
+
+    public get isMasked(): boolean {
+        return this.reason !== null;
+    }
+
+    public start(): void {
+        if (this.options.maskOnBlur) {
+            this.disposables.listen(window, 'blur', () => {
+                // Focus moving into an iframe on the page blurs the window too
+                if (!(document.activeElement instanceof HTMLIFrameElement)) {
+                    this.mask('blur');
+                }
+            });
+            this.disposables.listen(window, 'pagehide', () => this.mask('hidden'));
+            this.disposables.listen(window, 'focus', () => this.unmask());
+            this.disposables.listen(window, 'pageshow', () => this.unmaskIfFocused());
+            this.disposables.listen(document, 'visibilitychange', () => {
+                if (document.hidden) {
+                    this.mask('hidden');
+                } else {
+                    this.unmaskIfFocused();
+                }
+            });
+        }
+
+        INTERACTION_EVENTS.forEach(type => {
+            this.disposables.listen(document, type, () => this.handleInteraction(), { passive: true, capture: true });
+        });
+
+        this.disposables.add(() => this.clearIdleTimer());
+        this.restartIdleTimer();
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+
+        if (this.reason !== null) {
+            this.reason = null;
+            this.onChange(false, null);
+        }
+    }
+
+    private handleInteraction(): void {
+        this.restartIdleTimer();
+
+        // Hovering an unfocused window fires mousemove too, so only an idle
+        // mask lifts on interaction alone
+        if (this.reason === 'idle') {
+            this.unmask();
+        } else if (this.reason !== null) {
+            this.unmaskIfFocused();
+        }
+    }
+
+    private mask(reason: PrivacyMaskReason): void {
+        if (this.reason === reason) return;
+
+        // Focus loss outranks idleness: only interaction with a focused page
+        // may lift it
+        if (this.reason !== null && reason === 'idle') return;
+
+        this.reason = reason;
+        this.onChange(true, reason);
+    }
+
+    private unmask(): void {
+        if (this.reason === null) return;
+
+        this.reason = null;
+        this.onChange(false, null);
+        this.restartIdleTimer();
+    }
+
+    private unmaskIfFocused(): void {
+        if (!document.hidden && document.hasFocus()) {
+            this.unmask();
+        }
+    }
+
+    private restartIdleTimer(): void {
+        this.clearIdleTimer();
+
+        if (this.options.idleTimeout > 0) {
+            this.idleTimer = window.setTimeout(() => {
+                this.idleTimer = null;
+                this.mask('idle');
+            }, this.options.idleTimeout);
+        }
+    }
+
+    private clearIdleTimer(): void {
+        if (this.idleTimer !== null) {
+            window.clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+    }
+}
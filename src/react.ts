@@ -0,0 +1,69 @@
+import { createElement, HTMLAttributes, ReactElement, useEffect, useRef, useState } from 'react';
+import { ScreenshotPreventionInstance } from './index';
+import { acquireScreenshotPrevention, changedOptions, ScreenshotPreventionLease } from './shared';
+import { ProtectionZoneOptions, ScreenshotPreventionOptions } from './types';
+
+/**
+ * Holds the shared instance while the component is mounted and applies
+ * `options` whenever they change. Returns null until the first effect ran,
+ * so the server render and hydration see the same thing.
+ */
+export function useScreenshotPrevention(
+    options: Partial<ScreenshotPreventionOptions> = {}
+): ScreenshotPreventionInstance | null {
+    const [instance, setInstance] = useState<ScreenshotPreventionInstance | null>(null);
+    const lease = useRef<ScreenshotPreventionLease | null>(null);
+    const applied = useRef(options);
+
+    useEffect(() => {
+        const current = acquireScreenshotPrevention(applied.current);
+        lease.current = current;
+        setInstance(current.instance);
+
+        return () => {
+            current.release();
+            lease.current = null;
+        };
+    }, []);
+
+    // Inline option objects are new on every render; only options whose
+    // values changed are passed on
+    useEffect(() => {
+        if (!lease.current) return;
+
+        const changes = changedOptions(applied.current, options);
+        applied.current = options;
+        if (Object.keys(changes).length > 0) {
+            lease.current.update(changes);
+        }
+    });
+
+    return instance;
+}
+
+export interface ProtectedProps extends HTMLAttributes<HTMLElement> {
+    /** Options for the shared instance */
+    options?: Partial<ScreenshotPreventionOptions>;
+    /** Options for this element's protection zone */
+    zone?: ProtectionZoneOptions;
+    /** Element to render; defaults to `div` */
+    as?: string;
+}
+
+/** Renders its children inside a protection zone of the shared instance */
+export function Protected({ options, zone, as = 'div', children, ...props }: ProtectedProps): ReactElement {
+    const instance = useScreenshotPrevention(options);
+    const ref = useRef<HTMLElement>(null);
+    // Zone options are plain strings, so their JSON is a stable dependency
+    const zoneKey = JSON.stringify(zone ?? {});
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!instance || !element) return;
+
+        instance.protect(element, JSON.parse(zoneKey));
+        return () => instance.unprotect(element);
+    }, [instance, zoneKey]);
+
+    return createElement(as, { ...props, ref }, children);
+}
@@ -0,0 +1,154 @@
+import { DetectionMethod, Detector, DetectorContext, DetectorToggles } from './types';
+
+interface RegistryEntry {
+    detector: Detector;
+    teardown: (() => void) | null;
+    frameTeardowns: Map<Window, () => void>;
+}
+
+/**
+ * Owns the set of detectors an instance runs. Toggles are kept per name and
+ * may be set before the matching detector is registered, so options can
+ * mention custom detectors that are added later.
+ */
+export class DetectorRegistry {
+    private readonly entries = new Map<DetectionMethod, RegistryEntry>();
+    private readonly toggles: DetectorToggles = {};
+    private readonly frames = new Set<Window>();
+    private running = false;
+
+    constructor(private readonly createContext: (detector: Detector, target: Window) => DetectorContext) {}
+
+    public register(detector: Detector): void {
+        if (this.entries.has(detector.name)) {
+            throw new Error(`Detector "${detector.name}" is already registered`);
+        }
+
+        const entry: RegistryEntry = { detector, teardown: null, frameTeardowns: new Map() };
+        this.entries.set(detector.name, entry);
+
+        if (this.running && this.isEnabled(detector.name)) {
+            this.attach(entry);
+        }
+    }
+
+    public unregister(name: DetectionMethod): void {
+        const entry = this.entries.get(name);
+        if (!entry) return;
+
+        this.detach(entry);
+        this.entries.delete(name);
+    }
+
+    public has(name: DetectionMethod): boolean {
+        return this.entries.has(name);
+    }
+
+    public names(): DetectionMethod[] {
+        return Array.from(this.entries.keys());
+    }
+
+    public isEnabled(name: DetectionMethod): boolean {
+        return this.toggles[name] !== false;
+    }
+
+    public isSupported(name: DetectionMethod): boolean {
+        const entry = this.entries.get(name);
+        return entry !== undefined && entry.detector.isSupported?.(window) !== false;
+    }
+
+    /** Attached to the page right now, i.e. enabled and not stopped */
+    public isAttached(name: DetectionMethod): boolean {
+        return Boolean(this.entries.get(name)?.teardown);
+    }
+
+    public setEnabled(name: DetectionMethod, enabled: boolean): void {
+        this.toggles[name] = enabled;
+
+        const entry = this.entries.get(name);
+        if (!entry || !this.running) return;
+
+        if (enabled) {
+            this.attach(entry);
+        } else {
+            this.detach(entry);
+        }
+    }
+
+    /** Detaches and re-attaches a running detector so it picks up new options */
+    public restart(name: DetectionMethod): void {
+        const entry = this.entries.get(name);
+        if (!entry || !this.running || !this.isEnabled(name)) return;
+
+        this.detach(entry);
+        this.attach(entry);
+    }
+
+    public configure(toggles: DetectorToggles): void {
+        Object.keys(toggles).forEach(name => {
+            const enabled = toggles[name];
+            if (enabled !== undefined) {
+                this.setEnabled(name, enabled);
+            }
+        });
+    }
+
+    /** Runs detectors marked `frames` in a same-origin frame as well */
+    public addFrame(target: Window): void {
+        if (this.frames.has(target)) return;
+        this.frames.add(target);
+
+        this.entries.forEach(entry => {
+            if (entry.teardown) {
+                this.attachFrame(entry, target);
+            }
+        });
+    }
+
+    public removeFrame(target: Window): void {
+        if (!this.frames.delete(target)) return;
+        this.entries.forEach(entry => this.detachFrame(entry, target));
+    }
+
+    public start(): void {
+        this.running = true;
+        this.entries.forEach((entry, name) => {
+            if (this.isEnabled(name)) {
+                this.attach(entry);
+            }
+        });
+    }
+
+    public stop(): void {
+        this.running = false;
+        this.entries.forEach(entry => this.detach(entry));
+    }
+
+    private attach(entry: RegistryEntry): void {
+        if (entry.teardown) return;
+        entry.teardown = entry.detector.attach(this.createContext(entry.detector, window));
+        this.frames.forEach(target => this.attachFrame(entry, target));
+    }
+
+    private detach(entry: RegistryEntry): void {
+        if (!entry.teardown) return;
+
+        const teardown = entry.teardown;
+        entry.teardown = null;
+        this.frames.forEach(target => this.detachFrame(entry, target));
+        teardown();
+    }
+
+    private attachFrame(entry: RegistryEntry, target: Window): void {
+        if (!entry.detector.frames || entry.frameTeardowns.has(target)) return;
+        entry.frameTeardowns.set(target, entry.detector.attach(this.createContext(entry.detector, target)));
+    }
+
+    private detachFrame(entry: RegistryEntry, target: Window): void {
+        const teardown = entry.frameTeardowns.get(target);
+        if (!teardown) return;
+
+        entry.frameTeardowns.delete(target);
+        teardown();
+    }
+}
@@ -0,0 +1,269 @@
+import { Disposables } from './disposables';
+import { AttemptDetails, AttemptReport, ReportingOptions } from './types';
+
+const SESSION_KEY = 'screenshot-prevention:session';
+// Hidden tabs may run their timers only once a minute, so a live page's
+// queue can go this long without being written
+const ORPHAN_AGE = 10 * 60 * 1000;
+
+interface ReporterContext {
+    mousePosition: { x: number; y: number };
+}
+
+/** A page's queue in localStorage; `updatedAt` is 0 once the page has gone */
+interface StoredQueue {
+    updatedAt: number;
+    reports: AttemptReport[];
+}
+
+function createId(): string {
+    return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function readSessionId(): string {
+    try {
+        const existing = sessionStorage.getItem(SESSION_KEY);
+        if (existing) return existing;
+    } catch {
+        // Storage can be disabled; fall through to an unsaved id
+    }
+
+    const id = createId();
+
+    try {
+        sessionStorage.setItem(SESSION_KEY, id);
+    } catch {
+        // Ignore: the id still lives for this page
+    }
+
+    return id;
+}
+
+/**
+ * Queues attempt reports and delivers them to a collection endpoint in
+ * batches. The queue is mirrored to localStorage so reports raised while
+ * offline or right before a reload are sent on the next page view. Every
+ * page stores its queue under its own key, and takes over another page's
+ * only once that page has gone.
+ */
+export class AttemptReporter {
+    private readonly options: Required<ReportingOptions>;
+    private readonly disposables = new Disposables();
+    private readonly sessionId = readSessionId();
+    private readonly storageKey: string;
+    private queue: AttemptReport[] = [];
+    private inFlight: AttemptReport[] = [];
+    private failures = 0;
+    private retryTimer: number | null = null;
+
+    constructor(
+        options: ReportingOptions,
+        private readonly getContext: () => ReporterContext
+    ) {
+        this.options = {
+            batchSize: 10,
+            flushInterval: 5000,
+            maxRetries: 5,
+            retryDelay: 1000,
+            maxQueueSize: 500,
+            headers: {},
+            storageKey: 'screenshot-prevention:reports',
+            ...options
+        };
+        this.storageKey = `${this.options.storageKey}:${createId()}`;
+    }
+
+    public get pending(): number {
+        return this.queue.length;
+    }
+
+    public start(): void {
+        this.adoptOrphans();
+        this.persist();
+
+        const interval = window.setInterval(() => {
+            this.adoptOrphans();
+            // Rewriting the queue tells other pages this one is still open
+            this.persist();
+            this.flush();
+        }, this.options.flushInterval);
+        this.disposables.add(() => window.clearInterval(interval));
+        this.disposables.listen(window, 'online', () => this.flush());
+        this.disposables.listen(window, 'pagehide', () => this.flushWithBeacon());
+        this.disposables.listen(window, 'pageshow', event => {
+            if ((event as PageTransitionEvent).persisted) this.reclaim();
+        });
+        this.disposables.add(() => this.clearRetry());
+
+        if (this.queue.length > 0) {
+            this.flush();
+        }
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+        this.persist();
+    }
+
+    public enqueue(attempt: AttemptDetails): void {
+        const { mousePosition } = this.getContext();
+
+        this.queue.push({
+            ...attempt,
+            sessionId: this.sessionId,
+            url: window.location.href,
+            userAgent: navigator.userAgent,
+            mousePosition: { ...mousePosition }
+        });
+
+        this.trim();
+        this.persist();
+
+        if (this.queue.length >= this.options.batchSize) {
+            this.flush();
+        }
+    }
+
+    public async flush(): Promise<void> {
+        if (this.inFlight.length > 0 || this.retryTimer !== null || this.queue.length === 0) return;
+        if (navigator.onLine === false || typeof fetch !== 'function') return;
+
+        const batch = this.queue.slice(0, this.options.batchSize);
+        this.inFlight = batch;
+
+        try {
+            const response = await fetch(this.options.endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...this.options.headers },
+                body: JSON.stringify({ reports: batch }),
+                keepalive: true
+            });
+
+            if (!response.ok) {
+                throw new Error(`Report endpoint responded with ${response.status}`);
+            }
+
+            // The queue may have been trimmed or sent by beacon meanwhile,
+            // so remove the reports themselves rather than by position
+            this.remove(batch);
+            this.failures = 0;
+            this.persist();
+        } catch {
+            this.scheduleRetry();
+        } finally {
+            this.inFlight = [];
+        }
+
+        if (this.retryTimer === null && this.queue.length >= this.options.batchSize) {
+            await this.flush();
+        }
+    }
+
+    private flushWithBeacon(): void {
+        // The batch a fetch is sending is left to it: keepalive lets it
+        // outlive the page. It stays stored until the fetch succeeds, so the
+        // next page view may send it again, but never loses it
+        const reports = this.queue.filter(report => !this.inFlight.includes(report));
+
+        // A plain string body keeps the beacon a CORS-safelisted request
+        if (
+            reports.length > 0 &&
+            typeof navigator.sendBeacon === 'function' &&
+            navigator.sendBeacon(this.options.endpoint, JSON.stringify({ reports }))
+        ) {
+            this.remove(reports);
+        }
+
+        // Released, so the next page view need not wait for it to go stale
+        this.persist(true);
+    }
+
+    /** After a back/forward cache restore: take the queue back, unless another page already did */
+    private reclaim(): void {
+        if (this.queue.length > 0 && this.read(this.storageKey) === null) {
+            this.queue = [];
+        }
+        this.persist();
+    }
+
+    private scheduleRetry(): void {
+        this.failures++;
+
+        // Past maxRetries the queue waits for the next interval or `online`
+        if (this.failures > this.options.maxRetries) {
+            this.failures = 0;
+            return;
+        }
+
+        const delay = this.options.retryDelay * Math.pow(2, this.failures - 1);
+        this.retryTimer = window.setTimeout(() => {
+            this.retryTimer = null;
+            this.flush();
+        }, delay);
+    }
+
+    private clearRetry(): void {
+        if (this.retryTimer !== null) {
+            window.clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private remove(reports: AttemptReport[]): void {
+        this.queue = this.queue.filter(report => !reports.includes(report));
+    }
+
+    private trim(): void {
+        if (this.queue.length > this.options.maxQueueSize) {
+            this.queue.splice(0, this.queue.length - this.options.maxQueueSize);
+        }
+    }
+
+    private read(key: string): StoredQueue | null {
+        try {
+            const stored = localStorage.getItem(key);
+            const parsed = stored ? JSON.parse(stored) : null;
+            return parsed && typeof parsed.updatedAt === 'number' && Array.isArray(parsed.reports) ? parsed : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /** Moves the queues of pages that have gone into this one */
+    private adoptOrphans(): void {
+        const prefix = `${this.options.storageKey}:`;
+        const cutoff = Date.now() - ORPHAN_AGE;
+
+        try {
+            const keys = Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index));
+            keys.forEach(key => {
+                if (key === null || key === this.storageKey || !key.startsWith(prefix)) return;
+
+                const stored = this.read(key);
+                if (stored && stored.updatedAt <= cutoff) {
+                    localStorage.removeItem(key);
+                    this.queue = stored.reports.concat(this.queue);
+                }
+            });
+        } catch {
+            // Storage disabled: there is nothing to adopt
+        }
+
+        this.trim();
+    }
+
+    private persist(released = false): void {
+        try {
+            if (this.queue.length > 0) {
+                const stored: StoredQueue = { updatedAt: released ? 0 : Date.now(), reports: this.queue };
+                localStorage.setItem(this.storageKey, JSON.stringify(stored));
+            } else {
+                localStorage.removeItem(this.storageKey);
+            }
+        } catch {
+            // Quota exceeded or storage disabled: keep the in-memory queue
+        }
+    }
+}
@@ -0,0 +1,305 @@
+import { Disposables } from './disposables';
+import { THEME_DEFAULTS } from './theme';
+import { RoutePolicy, RoutePolicyOptions, RoutingOptions } from './types';
+
+type HistoryMethod = 'pushState' | 'replaceState';
+
+interface FieldCheck {
+    test(value: unknown): boolean;
+    expected: string;
+    /** Checks for the fields of an object; fields without one are rejected */
+    fields?: Record<string, FieldCheck>;
+    required?: string[];
+    /** Check for every item of an array */
+    items?: FieldCheck;
+    /** Check for every value of a record */
+    values?: FieldCheck;
+}
+
+const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const check = (test: (value: unknown) => boolean, expected: string): FieldCheck => ({ test, expected });
+const oneOf = (...values: string[]) => check(
+    value => values.includes(value as string),
+    `one of ${values.map(value => `'${value}'`).join(', ')}`
+);
+
+const STRING = check(value => typeof value === 'string', 'a string');
+const BOOLEAN = check(value => typeof value === 'boolean', 'a boolean');
+const NUMBER = check(value => typeof value === 'number' && isFinite(value), 'a number');
+const NON_NEGATIVE = check(value => typeof value === 'number' && value >= 0, 'a non-negative number');
+const OBJECT = check(isObject, 'an object');
+
+const shape = (fields: Record<string, FieldCheck>, required: string[] = []): FieldCheck =>
+    ({ ...OBJECT, fields, required });
+const arrayOf = (items: FieldCheck): FieldCheck => ({ ...check(Array.isArray, 'an array'), items });
+const recordOf = (values: FieldCheck): FieldCheck => ({ ...OBJECT, values });
+const orBoolean = (fieldCheck: FieldCheck): FieldCheck => ({
+    ...fieldCheck,
+    test: value => typeof value === 'boolean' || fieldCheck.test(value),
+    expected: `a boolean or ${fieldCheck.expected}`
+});
+const orNull = (fieldCheck: FieldCheck): FieldCheck => ({
+    ...fieldCheck,
+    test: value => value === null || fieldCheck.test(value),
+    expected: `${fieldCheck.expected} or null`
+});
+
+// Only options that can be written as JSON; callbacks stay in code
+const OPTION_CHECKS: Partial<Record<keyof RoutePolicyOptions, FieldCheck>> = {
+    blurIntensity: STRING,
+    warningMessage: STRING,
+    preventCopy: orBoolean(shape({
+        allowInInputs: BOOLEAN,
+        mode: oneOf('block', 'attribute'),
+        attribution: STRING,
+        blockContextMenu: BOOLEAN,
+        blockDrag: BOOLEAN
+    })),
+    preventInspect: orBoolean(shape({
+        strategies: arrayOf(oneOf('size', 'console', 'debugger')),
+        weights: shape({ size: NUMBER, console: NUMBER, debugger: NUMBER }),
+        threshold: NUMBER,
+        checkInterval: NON_NEGATIVE
+    })),
+    recoveryDelay: NON_NEGATIVE,
+    debug: BOOLEAN,
+    customStyles: shape(Object.keys(THEME_DEFAULTS).reduce<Record<string, FieldCheck>>((fields, key) => {
+        fields[key] = STRING;
+        return fields;
+    }, {})),
+    detectors: recordOf(BOOLEAN),
+    watermark: orNull(shape({
+        text: check(
+            value => typeof value === 'string' || (Array.isArray(value) && value.every(line => typeof line === 'string')),
+            'a string or an array of strings'
+        ),
+        opacity: NUMBER,
+        rotation: NUMBER,
+        fontSize: NUMBER,
+        fontFamily: STRING,
+        color: STRING,
+        gap: NUMBER,
+        includeTimestamp: BOOLEAN,
+        refreshInterval: NON_NEGATIVE,
+        onlyDuringLock: BOOLEAN
+    }, ['text'])),
+    tamperProtection: oneOf('off', 'restore', 'report', 'lock'),
+    printPolicy: oneOf('block', 'watermark', 'redact', 'allow'),
+    printNotice: STRING,
+    privacyScreen: orBoolean(shape({ maskOnBlur: BOOLEAN, idleTimeout: NON_NEGATIVE })),
+    spotlight: orBoolean(shape({
+        selector: STRING,
+        mode: oneOf('auto', 'hover', 'press'),
+        radius: NON_NEGATIVE,
+        blurIntensity: STRING
+    })),
+    protectMedia: orBoolean(shape({
+        selector: STRING,
+        playback: oneOf('pause', 'blank', 'none'),
+        pictureInPicture: oneOf('exit', 'block', 'allow'),
+        canvas: oneOf('hide', 'clear', 'none')
+    })),
+    frames: orBoolean(shape({ sameOrigin: BOOLEAN, allowedOrigins: arrayOf(STRING) })),
+    shortcuts: shape({
+        platforms: arrayOf(oneOf('windows', 'macos', 'linux', 'chromeos')),
+        add: arrayOf(shape({
+            id: STRING,
+            description: STRING,
+            key: STRING,
+            code: STRING,
+            ctrl: BOOLEAN,
+            shift: BOOLEAN,
+            alt: BOOLEAN,
+            meta: BOOLEAN
+        }, ['id'])),
+        remove: arrayOf(STRING)
+    }),
+    messages: recordOf(recordOf(STRING)),
+    locale: orNull(STRING),
+    lockScreen: shape({
+        countdown: BOOLEAN,
+        countdownLabel: STRING,
+        acknowledgeLabel: orNull(STRING),
+        contact: orNull(shape({ href: STRING, label: STRING }, ['href', 'label'])),
+        pointerEvents: oneOf('auto', 'none')
+    })
+};
+const OPTIONS_CHECK = shape(OPTION_CHECKS as Record<string, FieldCheck>);
+
+/** Adds an error for `value` and, recursively, for anything nested in it */
+function validateField(fieldCheck: FieldCheck, value: unknown, path: string, errors: string[]): void {
+    if (!fieldCheck.test(value)) {
+        errors.push(`${path} must be ${fieldCheck.expected}`);
+        return;
+    }
+
+    const { fields, required = [], items, values } = fieldCheck;
+    if (fields && isObject(value)) {
+        const record = value as Record<string, unknown>;
+        required
+            .filter(key => record[key] === undefined)
+            .forEach(key => errors.push(`${path}.${key} is required`));
+        Object.keys(record).forEach(key => {
+            if (fields[key]) {
+                validateField(fields[key], record[key], `${path}.${key}`, errors);
+            } else {
+                errors.push(`${path}.${key} is not a supported option`);
+            }
+        });
+    }
+    if (items && Array.isArray(value)) {
+        value.forEach((item, index) => validateField(items, item, `${path}[${index}]`, errors));
+    }
+    if (values && isObject(value)) {
+        const record = value as Record<string, unknown>;
+        Object.keys(record).forEach(key => validateField(values, record[key], `${path}.${key}`, errors));
+    }
+}
+
+/**
+ * Validates a policy document such as one fetched from `routes.source`.
+ * Every problem is listed in the thrown error, by path.
+ */
+export function parseRoutePolicies(input: unknown): RoutePolicy[] {
+    const errors: string[] = [];
+
+    if (!isObject(input) || !Array.isArray((input as { policies?: unknown }).policies)) {
+        throw new Error('Invalid route policy document: expected an object with a "policies" array');
+    }
+
+    const policies: unknown[] = (input as { policies: unknown[] }).policies;
+    policies.forEach((policy, index) => {
+        const path = `policies[${index}]`;
+        if (!isObject(policy)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+
+        const { match, protect, options } = policy as Record<string, unknown>;
+        if (typeof match !== 'string' || match === '') {
+            errors.push(`${path}.match must be a non-empty string`);
+        }
+        if (protect !== undefined && typeof protect !== 'boolean') {
+            errors.push(`${path}.protect must be a boolean`);
+        }
+        if (options !== undefined) {
+            validateField(OPTIONS_CHECK, options, `${path}.options`, errors);
+        }
+    });
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid route policy document:\n- ${errors.join('\n- ')}`);
+    }
+
+    return policies as RoutePolicy[];
+}
+
+export async function fetchRoutePolicies(url: string): Promise<RoutePolicy[]> {
+    if (typeof fetch !== 'function') {
+        throw new Error('Loading route policies requires fetch');
+    }
+
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+        throw new Error(`Route policy source responded with ${response.status}`);
+    }
+
+    return parseRoutePolicies(await response.json());
+}
+
+export function matchRoute(pattern: string, path: string): boolean {
+    const source = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+
+    return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * Follows single-page navigation and reports the policy for the current
+ * URL whenever it changes. `pushState` and `replaceState` fire no event, so
+ * they are wrapped for as long as the watcher runs.
+ */
+export class RouteWatcher {
+    private readonly disposables = new Disposables();
+    private policies: RoutePolicy[];
+    private current: RoutePolicy | null = null;
+    private running = false;
+
+    constructor(
+        private readonly options: RoutingOptions,
+        private readonly onChange: (policy: RoutePolicy | null) => void
+    ) {
+        this.policies = options.policies ?? [];
+    }
+
+    public start(): void {
+        if (this.running) return;
+
+        this.running = true;
+        this.wrapHistory('pushState');
+        this.wrapHistory('replaceState');
+        this.disposables.listen(window, 'popstate', () => this.check());
+        this.disposables.listen(window, 'hashchange', () => this.check());
+        this.disposables.add(() => {
+            this.running = false;
+        });
+
+        this.check(true);
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+        this.current = null;
+    }
+
+    public setPolicies(policies: RoutePolicy[]): void {
+        this.policies = policies;
+        if (this.running) {
+            this.check(true);
+        }
+    }
+
+    private check(force = false): void {
+        if (!this.running) return;
+
+        const path = this.options.mode === 'hash'
+            ? window.location.hash.slice(1) || '/'
+            : window.location.pathname;
+        const policy = this.policies.find(candidate => matchRoute(candidate.match, path)) ?? null;
+
+        if (force || policy !== this.current) {
+            this.current = policy;
+
+            // Runs inside the app's own pushState and popstate handling,
+            // which must not fail because a policy did
+            try {
+                this.onChange(policy);
+            } catch (error) {
+                console.error('[EnhancedScreenshotPrevention] Could not apply route policy', error);
+            }
+        }
+    }
+
+    private wrapHistory(method: HistoryMethod): void {
+        const original = history[method];
+        const notify = () => this.check();
+
+        const wrapped = function (this: History, ...args: Parameters<History[HistoryMethod]>) {
+            const result = original.apply(this, args);
+            notify();
+            return result;
+        };
+        history[method] = wrapped;
+
+        this.disposables.add(() => {
+            // A router that wrapped after us still calls into our wrapper,
+            // which goes inert once stopped, so only unwrap if we're on top
+            if (history[method] === wrapped) {
+                history[method] = original;
+            }
+        });
+    }
+}
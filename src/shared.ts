@@ -0,0 +1,105 @@
+import EnhancedScreenshotPrevention, { createScreenshotPrevention, ScreenshotPreventionInstance } from './index';
+import { ScreenshotPreventionOptions } from './types';
+
+export interface ScreenshotPreventionLease {
+    readonly instance: ScreenshotPreventionInstance;
+    /** Applies options to the shared instance; the most recent update wins */
+    update(options: Partial<ScreenshotPreventionOptions>): void;
+    /** Gives the instance back; the last release destroys it */
+    release(): void;
+}
+
+let shared: ScreenshotPreventionInstance | null = null;
+let holders = 0;
+// Created by the app itself, e.g. with `new` or auto-init, so not ours to destroy
+let ownedByApp = false;
+
+/**
+ * Hands the singleton to a component, element or directive. The instance is
+ * created by the first holder and destroyed once the last one releases it,
+ * so unmounting one component leaves protection up for the others. An
+ * instance the app created itself outlives every lease.
+ */
+export function acquireScreenshotPrevention(
+    options: Partial<ScreenshotPreventionOptions> = {}
+): ScreenshotPreventionLease {
+    const existing = EnhancedScreenshotPrevention.current();
+    const instance = createScreenshotPrevention(options);
+
+    if (instance !== shared) {
+        // Created just now, by the app, or after someone destroyed the previous one
+        shared = instance;
+        holders = 0;
+        ownedByApp = existing === instance;
+    }
+    if (existing === instance && Object.keys(options).length > 0) {
+        instance.update(options);
+    }
+    holders++;
+
+    let released = false;
+    return {
+        instance,
+        update(next) {
+            if (!released) {
+                instance.update(next);
+            }
+        },
+        release() {
+            if (released) return;
+            released = true;
+
+            if (shared !== instance) return;
+            holders--;
+            if (holders === 0) {
+                shared = null;
+                if (!ownedByApp) {
+                    instance.destroy();
+                }
+            }
+        }
+    };
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null &&
+    [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/** Compares plain objects and arrays by content; functions and everything else by reference */
+function sameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => sameValue(item, b[index]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keysA = Object.keys(a);
+        return keysA.length === Object.keys(b).length &&
+            keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && sameValue(a[key], b[key]));
+    }
+    return false;
+}
+
+/** Deep comparison, so bindings can skip updates for re-created option objects */
+export function sameOptions(a: object | undefined, b: object | undefined): boolean {
+    return sameValue(a, b);
+}
+
+/**
+ * The options in `next` whose values differ from `previous`, so an update
+ * leaves subsystems such as the reporter alone when their options did not change
+ */
+export function changedOptions(
+    previous: Partial<ScreenshotPreventionOptions> | undefined,
+    next: Partial<ScreenshotPreventionOptions>
+): Partial<ScreenshotPreventionOptions> {
+    const before = (previous ?? {}) as Record<string, unknown>;
+    const after = next as Record<string, unknown>;
+
+    return Object.keys(after).reduce<Record<string, unknown>>((changes, key) => {
+        if (!sameValue(before[key], after[key])) {
+            changes[key] = after[key];
+        }
+        return changes;
+    }, {}) as Partial<ScreenshotPreventionOptions>;
+}
@@ -0,0 +1,85 @@
+import { ShortcutOptions, ShortcutPlatform, ShortcutRule } from './types';
+
+const printScreen = { key: 'PrintScreen', code: 'PrintScreen' };
+const digit = (n: number) => ({ key: String(n), code: `Digit${n}` });
+
+// Rules are matched in order, so modifier-specific variants come before
+// the catch-all PrintScreen of each profile
+export const shortcutProfiles: Record<ShortcutPlatform, ShortcutRule[]> = {
+    windows: [
+        { id: 'windows.snippingTool', description: 'Win+Shift+S', key: 's', code: 'KeyS', meta: true, shift: true },
+        { id: 'windows.gameBarScreenshot', description: 'Win+Alt+PrintScreen', ...printScreen, meta: true, alt: true },
+        { id: 'windows.gameBarRecord', description: 'Win+Alt+R', key: 'r', code: 'KeyR', meta: true, alt: true },
+        { id: 'windows.saveScreenshot', description: 'Win+PrintScreen', ...printScreen, meta: true },
+        { id: 'windows.activeWindow', description: 'Alt+PrintScreen', ...printScreen, alt: true },
+        { id: 'windows.printScreen', description: 'PrintScreen', ...printScreen }
+    ],
+    macos: [
+        { id: 'macos.fullScreen', description: 'Cmd+Shift+3', ...digit(3), meta: true, shift: true },
+        { id: 'macos.selection', description: 'Cmd+Shift+4', ...digit(4), meta: true, shift: true },
+        { id: 'macos.screenshotApp', description: 'Cmd+Shift+5', ...digit(5), meta: true, shift: true },
+        { id: 'macos.touchBar', description: 'Cmd+Shift+6', ...digit(6), meta: true, shift: true }
+    ],
+    linux: [
+        { id: 'linux.areaToClipboard', description: 'Ctrl+Shift+PrintScreen', ...printScreen, ctrl: true, shift: true },
+        { id: 'linux.windowToClipboard', description: 'Ctrl+Alt+PrintScreen', ...printScreen, ctrl: true, alt: true },
+        { id: 'linux.screenToClipboard', description: 'Ctrl+PrintScreen', ...printScreen, ctrl: true },
+        { id: 'linux.area', description: 'Shift+PrintScreen', ...printScreen, shift: true },
+        { id: 'linux.window', description: 'Alt+PrintScreen', ...printScreen, alt: true },
+        { id: 'linux.kdeRegion', description: 'Meta+Shift+PrintScreen', ...printScreen, meta: true, shift: true },
+        { id: 'linux.kdeFullScreen', description: 'Meta+PrintScreen', ...printScreen, meta: true },
+        { id: 'linux.gnomeScreencast', description: 'Ctrl+Alt+Shift+R', key: 'r', code: 'KeyR', ctrl: true, alt: true, shift: true },
+        { id: 'linux.printScreen', description: 'PrintScreen', ...printScreen }
+    ],
+    chromeos: [
+        { id: 'chromeos.partial', description: 'Ctrl+Shift+Show windows', key: 'LaunchApplication1', code: 'F5', ctrl: true, shift: true },
+        { id: 'chromeos.window', description: 'Ctrl+Alt+Show windows', key: 'LaunchApplication1', code: 'F5', ctrl: true, alt: true },
+        { id: 'chromeos.fullScreen', description: 'Ctrl+Show windows', key: 'LaunchApplication1', code: 'F5', ctrl: true },
+        { id: 'chromeos.screenCapture', description: 'Launcher+Shift+S', key: 's', code: 'KeyS', meta: true, shift: true },
+        { id: 'chromeos.printScreen', description: 'Screenshot key', ...printScreen }
+    ]
+};
+
+export function detectPlatform(): ShortcutPlatform | null {
+    if (typeof navigator === 'undefined') return null;
+    if (/\bCrOS\b/.test(navigator.userAgent)) return 'chromeos';
+
+    const platform = (navigator as Navigator & { userAgentData?: { platform?: string } })
+        .userAgentData?.platform || navigator.platform || '';
+
+    if (/mac|iphone|ipad|ipod/i.test(platform)) return 'macos';
+    if (/win/i.test(platform)) return 'windows';
+    if (/linux|x11|bsd/i.test(platform)) return 'linux';
+    return null;
+}
+
+export function resolveShortcutRules(options: ShortcutOptions = {}): ShortcutRule[] {
+    const detected = detectPlatform();
+    // Without a recognisable platform every profile applies
+    const platforms = options.platforms ?? (detected ? [detected] : Object.keys(shortcutProfiles) as ShortcutPlatform[]);
+    const removed = new Set(options.remove ?? []);
+
+    return platforms
+        .reduce<ShortcutRule[]>((rules, platform) => rules.concat(shortcutProfiles[platform]), [])
+        .concat(options.add ?? [])
+        .filter(rule => !removed.has(rule.id));
+}
+
+function modifierMatches(expected: boolean | undefined, pressed: boolean): boolean {
+    return expected === undefined || expected === pressed;
+}
+
+export function matchesShortcut(rule: ShortcutRule, e: KeyboardEvent): boolean {
+    const keyMatches = rule.key !== undefined && e.key !== undefined &&
+        e.key.toLowerCase() === rule.key.toLowerCase();
+    const codeMatches = rule.code !== undefined && e.code === rule.code;
+    if (!keyMatches && !codeMatches) return false;
+
+    // Older Firefox reports the Windows key as the OS modifier
+    const meta = e.metaKey || e.getModifierState('Meta') || e.getModifierState('OS');
+
+    return modifierMatches(rule.ctrl, e.ctrlKey) &&
+        modifierMatches(rule.shift, e.shiftKey) &&
+        modifierMatches(rule.alt, e.altKey) &&
+        modifierMatches(rule.meta, meta);
+}
@@ -0,0 +1,154 @@
+import { Disposables } from './disposables';
+import { SpotlightOptions } from './types';
+
+const X_VARIABLE = '--screenshot-prevention-spotlight-x';
+const Y_VARIABLE = '--screenshot-prevention-spotlight-y';
+
+/**
+ * Blurs marked elements except for a small circle around the pointer, or
+ * around a finger while it is held down. A capture of the page then shows
+ * at most that circle, whether or not a detector notices it.
+ */
+export class Spotlight {
+    private readonly options: Required<SpotlightOptions>;
+    private readonly disposables = new Disposables();
+    private readonly style = document.createElement('style');
+    private pointer: { x: number; y: number } | null = null;
+    private revealed: HTMLElement[] = [];
+    private isPressed = false;
+    private isSuspended = false;
+    private updatePending = false;
+
+    constructor(options: SpotlightOptions, blurIntensity: string) {
+        this.options = {
+            selector: '[data-screenshot-prevention-spotlight]',
+            mode: 'auto',
+            radius: 80,
+            blurIntensity,
+            ...options
+        };
+        this.style.setAttribute('data-screenshot-prevention', 'spotlight');
+    }
+
+    public start(): void {
+        this.style.textContent = this.buildCss();
+        document.head.appendChild(this.style);
+        this.disposables.add(() => this.style.remove());
+
+        ['pointerdown', 'pointermove', 'pointerup', 'pointercancel'].forEach(type => {
+            this.disposables.listen(document, type, (e) => this.handlePointer(e as PointerEvent),
+                { passive: true, capture: true });
+        });
+        this.disposables.listen(document.documentElement, 'pointerleave', () => this.conceal());
+        // Capture tools usually take focus first, so nothing stays revealed for them
+        this.disposables.listen(window, 'blur', () => this.conceal());
+        this.disposables.listen(window, 'scroll', () => this.scheduleUpdate(), { passive: true, capture: true });
+
+        this.disposables.add(() => this.conceal());
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+    }
+
+    /** Keeps everything blurred, e.g. while the page is masked for a screen share */
+    public setSuspended(suspended: boolean): void {
+        this.isSuspended = suspended;
+        if (suspended) {
+            this.conceal();
+        }
+    }
+
+    private handlePointer(e: PointerEvent): void {
+        if (e.type === 'pointerdown') {
+            this.isPressed = true;
+        } else if (e.type === 'pointerup' || e.type === 'pointercancel') {
+            this.isPressed = false;
+        }
+
+        // `auto` follows a hovering mouse or pen, but a finger only while it touches
+        const needsPress = this.options.mode === 'press' ||
+            (this.options.mode === 'auto' && e.pointerType === 'touch');
+
+        if (this.isSuspended || (needsPress && !this.isPressed)) {
+            this.conceal();
+            return;
+        }
+
+        this.pointer = { x: e.clientX, y: e.clientY };
+        this.scheduleUpdate();
+    }
+
+    private conceal(): void {
+        this.pointer = null;
+        this.isPressed = false;
+        this.update();
+    }
+
+    private scheduleUpdate(): void {
+        if (this.updatePending || !this.pointer) return;
+
+        this.updatePending = true;
+        requestAnimationFrame(() => {
+            this.updatePending = false;
+            this.update();
+        });
+    }
+
+    private update(): void {
+        const { pointer } = this;
+        const { radius } = this.options;
+        const next: HTMLElement[] = [];
+
+        if (pointer) {
+            // Elements near the pointer count too, so the circle crosses edges smoothly
+            document.querySelectorAll<HTMLElement>(this.options.selector).forEach(element => {
+                const rect = element.getBoundingClientRect();
+                if (pointer.x < rect.left - radius || pointer.x > rect.right + radius ||
+                    pointer.y < rect.top - radius || pointer.y > rect.bottom + radius) {
+                    return;
+                }
+
+                element.style.setProperty(X_VARIABLE, `${pointer.x - rect.left}px`);
+                element.style.setProperty(Y_VARIABLE, `${pointer.y - rect.top}px`);
+                next.push(element);
+            });
+        }
+
+        this.revealed
+            .filter(element => !next.includes(element))
+            .forEach(element => {
+                element.style.removeProperty(X_VARIABLE);
+                element.style.removeProperty(Y_VARIABLE);
+            });
+        this.revealed = next;
+    }
+
+    private buildCss(): string {
+        const { selector, radius, blurIntensity } = this.options;
+        const blur = `blur(${blurIntensity})`;
+        // Without the variables the circle sits far outside the element
+        const mask = `radial-gradient(circle ${radius}px at var(${X_VARIABLE}, -100vmax) var(${Y_VARIABLE}, -100vmax), ` +
+            `transparent ${Math.round(radius * 0.75)}px, #000 ${radius}px)`;
+
+        return `
+            :where(${selector}) {
+                position: relative;
+                isolation: isolate;
+                -webkit-touch-callout: none;
+            }
+
+            :is(${selector})::after {
+                content: '';
+                position: absolute;
+                inset: 0;
+                z-index: 2147483647;
+                pointer-events: none;
+                backdrop-filter: ${blur};
+                -webkit-backdrop-filter: ${blur};
+                mask-image: ${mask};
+                -webkit-mask-image: ${mask};
+            }
+        `;
+    }
+}
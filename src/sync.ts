@@ -0,0 +1,153 @@
+import { Disposables } from './disposables';
+import { SyncOptions } from './types';
+
+export interface SharedState {
+    count: number;
+    /** Epoch ms at which the current lock ends */
+    lockedUntil: number;
+    persistent: boolean;
+}
+
+type SyncMessage =
+    | { type: 'attempt'; state: SharedState }
+    | { type: 'reset' }
+    | { type: 'hello' }
+    | { type: 'state'; state: SharedState };
+
+interface SyncHandlers {
+    getState(): SharedState;
+    /** Another tab recorded an attempt, or answered with its state */
+    onState(state: SharedState): void;
+    onReset(): void;
+}
+
+export const EMPTY_STATE: SharedState = { count: 0, lockedUntil: 0, persistent: false };
+
+export function mergeStates(a: SharedState, b: SharedState): SharedState {
+    return {
+        count: Math.max(a.count, b.count),
+        lockedUntil: Math.max(a.lockedUntil, b.lockedUntil),
+        persistent: a.persistent || b.persistent
+    };
+}
+
+/**
+ * Shares attempt counts and locks between same-origin tabs and keeps them
+ * across reloads. Messages go over BroadcastChannel, or through `storage`
+ * events where that is missing.
+ */
+export class TabSync {
+    private readonly options: Required<SyncOptions>;
+    private readonly disposables = new Disposables();
+    private channel: BroadcastChannel | null = null;
+
+    constructor(options: SyncOptions, private readonly handlers: SyncHandlers) {
+        this.options = {
+            scope: 'session',
+            channel: 'screenshot-prevention:sync',
+            ...options
+        };
+    }
+
+    private get stateKey(): string {
+        return `${this.options.channel}:state`;
+    }
+
+    private get messageKey(): string {
+        return `${this.options.channel}:message`;
+    }
+
+    private get storage(): Storage {
+        return this.options.scope === 'local' ? localStorage : sessionStorage;
+    }
+
+    /** Opens the channel, asks other tabs for their state and returns the saved one */
+    public start(): SharedState {
+        if (typeof BroadcastChannel === 'function') {
+            const channel = new BroadcastChannel(this.options.channel);
+            channel.onmessage = (e: MessageEvent) => this.receive(e.data);
+            this.channel = channel;
+            this.disposables.add(() => {
+                channel.close();
+                this.channel = null;
+            });
+        } else {
+            this.disposables.listen(window, 'storage', (e: Event) => {
+                const { key, newValue } = e as StorageEvent;
+                if (key !== this.messageKey || !newValue) return;
+
+                try {
+                    this.receive(JSON.parse(newValue).message);
+                } catch {
+                    // Not one of ours
+                }
+            });
+        }
+
+        this.post({ type: 'hello' });
+        return this.load();
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+    }
+
+    public publish(state: SharedState): void {
+        this.save(state);
+        this.post({ type: 'attempt', state });
+    }
+
+    public reset(): void {
+        this.save(EMPTY_STATE);
+        this.post({ type: 'reset' });
+    }
+
+    public save(state: SharedState): void {
+        try {
+            this.storage.setItem(this.stateKey, JSON.stringify(state));
+        } catch {
+            // Storage can be full or disabled; tabs still sync while open
+        }
+    }
+
+    private load(): SharedState {
+        try {
+            const saved = this.storage.getItem(this.stateKey);
+            return saved ? mergeStates(EMPTY_STATE, JSON.parse(saved)) : EMPTY_STATE;
+        } catch {
+            return EMPTY_STATE;
+        }
+    }
+
+    private receive(message: SyncMessage): void {
+        switch (message?.type) {
+            case 'hello':
+                this.post({ type: 'state', state: this.handlers.getState() });
+                break;
+            case 'attempt':
+            case 'state':
+                this.handlers.onState(message.state);
+                this.save(this.handlers.getState());
+                break;
+            case 'reset':
+                this.handlers.onReset();
+                this.save(EMPTY_STATE);
+                break;
+        }
+    }
+
+    private post(message: SyncMessage): void {
+        if (this.channel) {
+            this.channel.postMessage(message);
+            return;
+        }
+
+        try {
+            // The nonce makes repeated messages still change the value, and
+            // with it fire a storage event in the other tabs
+            localStorage.setItem(this.messageKey, JSON.stringify({ message, nonce: Math.random() }));
+        } catch {
+            // No transport left; this tab runs on its own
+        }
+    }
+}
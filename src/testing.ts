@@ -0,0 +1,288 @@
+import EnhancedScreenshotPrevention, { ScreenshotPreventionInstance } from './index';
+import { RESIZE_DEBOUNCE } from './detectors';
+
+export interface TestEnvironmentOptions {
+    /** Report `backdrop-filter` as supported, as browsers do and jsdom doesn't; defaults to true */
+    backdropFilter?: boolean;
+}
+
+/** Timer functions replaced by @sinonjs/fake-timers, which Jest and Vitest use, carry their clock */
+interface FakeClock {
+    tick(ms: number): unknown;
+    tickAsync?(ms: number): Promise<unknown>;
+}
+
+class FakeVisualViewport extends EventTarget {
+    public width = window.innerWidth;
+    public height = window.innerHeight;
+    public readonly offsetLeft = 0;
+    public readonly offsetTop = 0;
+    public readonly pageLeft = 0;
+    public readonly pageTop = 0;
+    public readonly scale = 1;
+}
+
+/** Like a real track, `stop()` fires no `ended` event; `simulate.endScreenShare()` does */
+class FakeMediaStreamTrack extends EventTarget {
+    public readonly kind = 'video';
+    public readyState: MediaStreamTrackState = 'live';
+
+    public stop(): void {
+        this.readyState = 'ended';
+    }
+}
+
+interface TestEnvironment {
+    viewport: FakeVisualViewport;
+    mediaSessionHandlers: Map<MediaSessionAction, MediaSessionActionHandler>;
+    devToolsOpen: boolean;
+    restores: Array<() => void>;
+}
+
+let environment: TestEnvironment | null = null;
+
+const ACTIVE_CLASS = 'screenshot-prevention-active';
+
+/** Defines `target[key]` and returns a function that puts the previous property back */
+function replace(target: object, key: string, value: unknown): () => void {
+    const descriptor = Object.getOwnPropertyDescriptor(target, key);
+    Object.defineProperty(target, key, { value, writable: true, configurable: true });
+
+    return () => {
+        if (descriptor) {
+            Object.defineProperty(target, key, descriptor);
+        } else {
+            delete (target as Record<string, unknown>)[key];
+        }
+    };
+}
+
+function requireEnvironment(helper: string): TestEnvironment {
+    if (!environment) {
+        throw new Error(`simulate.${helper}() needs installTestEnvironment() first`);
+    }
+    return environment;
+}
+
+function createFakeStream(): MediaStream {
+    const track = new FakeMediaStreamTrack();
+
+    return {
+        id: `fake-stream-${Date.now()}`,
+        get active() {
+            return track.readyState === 'live';
+        },
+        getTracks: () => [track],
+        getVideoTracks: () => [track],
+        getAudioTracks: () => []
+    } as unknown as MediaStream;
+}
+
+/**
+ * Stubs what jsdom lacks or does asynchronously: animation frames run
+ * synchronously, and `visualViewport`, `getDisplayMedia`, `mediaSession`
+ * and `CSS.supports` are fakes the `simulate` helpers can drive. Install it
+ * before creating the instance, and after `jest.useFakeTimers()`, which
+ * replaces animation frames too. Returns a function that undoes it.
+ */
+export function installTestEnvironment(options: TestEnvironmentOptions = {}): () => void {
+    restoreTestEnvironment();
+
+    const { backdropFilter = true } = options;
+    const env: TestEnvironment = {
+        viewport: new FakeVisualViewport(),
+        mediaSessionHandlers: new Map(),
+        devToolsOpen: false,
+        restores: []
+    };
+    const stub = (target: object, key: string, value: unknown) => env.restores.push(replace(target, key, value));
+
+    stub(window, 'requestAnimationFrame', (callback: FrameRequestCallback) => {
+        callback(performance.now());
+        return 0;
+    });
+    stub(window, 'cancelAnimationFrame', () => {});
+    stub(window, 'visualViewport', env.viewport);
+
+    stub(navigator, 'mediaDevices', {
+        getDisplayMedia: () => Promise.resolve(createFakeStream())
+    });
+    stub(navigator, 'mediaSession', {
+        metadata: null,
+        playbackState: 'none',
+        setActionHandler: (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+            if (handler) {
+                env.mediaSessionHandlers.set(action, handler);
+            } else {
+                env.mediaSessionHandlers.delete(action);
+            }
+        },
+        setPositionState: () => {}
+    });
+
+    const previousCss = typeof CSS === 'undefined' ? null : CSS;
+    stub(window, 'CSS', Object.assign(Object.create(previousCss), {
+        supports: (property: string, value?: string) => {
+            if (value !== undefined && /(^|-)backdrop-filter$/.test(property)) return backdropFilter;
+            return previousCss ? previousCss.supports(property, value as string) : false;
+        }
+    }));
+
+    // The devTools detector logs an element to find out whether a console
+    // renders it, i.e. whether devtools are open
+    const { debug } = console;
+    stub(console, 'debug', (...args: unknown[]) => {
+        if (args.length === 1 && args[0] instanceof Element) {
+            if (env.devToolsOpen) void args[0].id;
+            return;
+        }
+        debug.apply(console, args);
+    });
+
+    environment = env;
+    return restoreTestEnvironment;
+}
+
+export function restoreTestEnvironment(): void {
+    if (!environment) return;
+
+    const { restores } = environment;
+    environment = null;
+    restores.reverse().forEach(restore => restore());
+}
+
+/** Destroys the singleton, if there is one, so the next test starts from a fresh instance */
+export function resetScreenshotPrevention(): void {
+    EnhancedScreenshotPrevention.current()?.destroy();
+}
+
+/**
+ * Moves time forward: ticks the clock when fake timers are installed and
+ * waits for real otherwise
+ */
+export async function advanceTime(ms: number): Promise<void> {
+    const clock = (setTimeout as unknown as { clock?: FakeClock }).clock;
+
+    if (!clock) {
+        await new Promise(resolve => setTimeout(resolve, ms));
+    } else if (clock.tickAsync) {
+        await clock.tickAsync(ms);
+    } else {
+        clock.tick(ms);
+    }
+}
+
+/** Advances past the end of the running lock, `recoveryDelay` or escalation included */
+export async function advanceThroughLock(instance: ScreenshotPreventionInstance): Promise<void> {
+    const { locked, lockedUntil } = instance.getDiagnostics();
+    if (!locked) return;
+
+    if (lockedUntil === null) {
+        throw new Error('The lock is persistent; only reset() ends it');
+    }
+    await advanceTime(Math.max(0, lockedUntil - Date.now()));
+}
+
+const isDisplayed = (element: Element | null) => element instanceof HTMLElement && element.style.display !== 'none';
+
+export function expectLocked(): void {
+    if (!document.body.classList.contains(ACTIVE_CLASS)) {
+        throw new Error('Expected the page to be locked, but it is not');
+    }
+
+    const masks = document.querySelectorAll('[data-screenshot-prevention="overlay"], [data-screenshot-prevention="zone"]');
+    if (!Array.from(masks).some(isDisplayed)) {
+        throw new Error('Expected the page to be locked, but neither the overlay nor a zone mask is showing');
+    }
+}
+
+export function expectUnlocked(): void {
+    if (document.body.classList.contains(ACTIVE_CLASS)) {
+        throw new Error('Expected the page to be unlocked, but it is locked');
+    }
+
+    if (isDisplayed(document.querySelector('[data-screenshot-prevention="warning"]'))) {
+        throw new Error('Expected the page to be unlocked, but the warning is showing');
+    }
+}
+
+/**
+ * Produces the signals the built-in detectors listen for. Helpers that wait
+ * for a debounce return a promise and advance time like `advanceTime()`.
+ */
+export const simulate = {
+    /** A key press, PrintScreen unless told otherwise */
+    keyboard(init: string | KeyboardEventInit = 'PrintScreen', target: EventTarget = document): void {
+        const eventInit = typeof init === 'string' ? { key: init } : init;
+        target.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...eventInit }));
+    },
+
+    /** The page hidden and shown again at once, as some capture tools do */
+    visibilityFlash(): void {
+        const restores: Array<() => void> = [];
+        [true, false].forEach(hidden => {
+            restores.push(
+                replace(document, 'hidden', hidden),
+                replace(document, 'visibilityState', hidden ? 'hidden' : 'visible')
+            );
+            document.dispatchEvent(new Event('visibilitychange'));
+        });
+        restores.reverse().forEach(restore => restore());
+    },
+
+    /** Docks devtools and lets the console render logged elements; `false` closes them again */
+    async devTools(open = true): Promise<void> {
+        const env = requireEnvironment('devTools');
+        env.devToolsOpen = open;
+        env.restores.push(replace(window, 'outerWidth', window.innerWidth + (open ? 400 : 0)));
+
+        window.dispatchEvent(new Event('resize'));
+        await advanceTime(RESIZE_DEBOUNCE);
+    },
+
+    /** A visual viewport resize of the kind mobile screenshots cause */
+    async mobileScreenshot(): Promise<void> {
+        const { viewport } = requireEnvironment('mobileScreenshot');
+        viewport.width = window.outerWidth + 100;
+        viewport.dispatchEvent(new Event('resize'));
+        await advanceTime(RESIZE_DEBOUNCE);
+        viewport.width = window.innerWidth;
+    },
+
+    /** Asks for a screen share; resolves with the stream, or null when it was refused */
+    async screenShare(constraints?: DisplayMediaStreamOptions): Promise<MediaStream | null> {
+        const { mediaDevices } = navigator;
+        if (!mediaDevices?.getDisplayMedia) {
+            throw new Error('navigator.mediaDevices.getDisplayMedia is missing; call installTestEnvironment() first');
+        }
+
+        try {
+            return await mediaDevices.getDisplayMedia(constraints);
+        } catch {
+            return null;
+        }
+    },
+
+    /** Ends a share the way the browser's "Stop sharing" button does */
+    endScreenShare(stream: MediaStream): void {
+        stream.getTracks().forEach(track => {
+            if (!(track instanceof FakeMediaStreamTrack) || track.readyState === 'ended') return;
+
+            track.readyState = 'ended';
+            track.dispatchEvent(new Event('ended'));
+        });
+    },
+
+    /** A play request through Media Session, as recorders send */
+    mediaRecording(): void {
+        requireEnvironment('mediaRecording').mediaSessionHandlers.get('play')?.({ action: 'play' });
+    },
+
+    print(): void {
+        window.dispatchEvent(new Event('beforeprint'));
+    },
+
+    copy(target: EventTarget = document.body): void {
+        target.dispatchEvent(new Event('copy', { bubbles: true, cancelable: true }));
+    }
+};
@@ -0,0 +1,88 @@
+import { UIStyles } from './types';
+
+export const THEME_DEFAULTS: UIStyles = {
+    overlayBackground: 'rgba(255, 255, 255, 0.5)',
+    overlayFallbackBackground: '#ffffff',
+    warningBackground: '#ff4444',
+    warningColor: '#ffffff',
+    warningFontFamily: 'system-ui, -apple-system, sans-serif',
+    warningFontSize: '16px',
+    warningPadding: '20px',
+    warningMaxWidth: 'min(480px, 90vw)',
+    warningBorderRadius: '8px',
+    warningBoxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+    buttonBackground: '#ffffff',
+    buttonColor: '#ff4444',
+    linkColor: 'inherit'
+};
+
+/** `warningBackground` → `--screenshot-prevention-warning-background` */
+export function themeVariable(key: keyof UIStyles): string {
+    return `--screenshot-prevention-${key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+}
+
+const themed = (key: keyof UIStyles) => `var(${themeVariable(key)}, ${THEME_DEFAULTS[key]})`;
+
+/**
+ * Theme rules for the overlay and warning. Every value is a custom property,
+ * so pages can restyle the UI from their own CSS, e.g. on `:root`.
+ */
+export function buildThemeCss(): string {
+    return `
+            [data-screenshot-prevention="overlay"] {
+                background: ${themed('overlayBackground')};
+            }
+
+            [data-screenshot-prevention="overlay"][data-screenshot-prevention-fallback="opaque"] {
+                background: ${themed('overlayFallbackBackground')};
+            }
+
+            [data-screenshot-prevention="warning"] {
+                background: ${themed('warningBackground')};
+                color: ${themed('warningColor')};
+                font-family: ${themed('warningFontFamily')};
+                font-size: ${themed('warningFontSize')};
+                padding: ${themed('warningPadding')};
+                max-width: ${themed('warningMaxWidth')};
+                border-radius: ${themed('warningBorderRadius')};
+                box-shadow: ${themed('warningBoxShadow')};
+                box-sizing: border-box;
+            }
+
+            [data-screenshot-prevention="warning"] p {
+                margin: 0 0 12px;
+            }
+
+            [data-screenshot-prevention="warning"] p:last-child {
+                margin-bottom: 0;
+            }
+
+            [data-screenshot-prevention="warning"] button {
+                background: ${themed('buttonBackground')};
+                color: ${themed('buttonColor')};
+                font: inherit;
+                border: 0;
+                border-radius: 4px;
+                padding: 8px 16px;
+                cursor: pointer;
+            }
+
+            [data-screenshot-prevention="warning"] a {
+                color: ${themed('linkColor')};
+            }
+        `;
+}
+
+/**
+ * Sets the custom properties for values that differ from the defaults on
+ * the element itself, where they win over page-level theming
+ */
+export function applyTheme(element: HTMLElement, styles: UIStyles): void {
+    (Object.keys(THEME_DEFAULTS) as Array<keyof UIStyles>).forEach(key => {
+        if (styles[key] !== THEME_DEFAULTS[key]) {
+            element.style.setProperty(themeVariable(key), styles[key]);
+        } else {
+            element.style.removeProperty(themeVariable(key));
+        }
+    });
+}
@@ -0,0 +1,424 @@
+export interface ScreenshotPreventionOptions {
+    blurIntensity?: string;
+    warningMessage?: string;
+    preventCopy?: boolean | CopyProtectionOptions;
+    preventInspect?: boolean | DevToolsDetectionOptions;
+    recoveryDelay?: number;
+    debug?: boolean;
+    onAttempt?: (details: AttemptDetails) => void;
+    customStyles?: Partial<UIStyles>;
+    detectors?: DetectorToggles;
+    reporting?: ReportingOptions | null;
+    escalation?: EscalationOptions | null;
+    watermark?: WatermarkOptions | null;
+    tamperProtection?: TamperProtectionLevel;
+    printPolicy?: PrintPolicy;
+    printNotice?: string;
+    privacyScreen?: boolean | PrivacyScreenOptions;
+    spotlight?: boolean | SpotlightOptions;
+    shortcuts?: ShortcutOptions;
+    routes?: RoutingOptions | null;
+    sync?: boolean | SyncOptions;
+    messages?: WarningMessageCatalog;
+    /** Locale for `messages`; null follows `navigator.language` */
+    locale?: string | null;
+    lockScreen?: LockScreenOptions;
+    renderWarning?: WarningRenderer | null;
+    onScreenShareRequest?: ScreenSharePolicy | null;
+    protectMedia?: boolean | MediaProtectionOptions;
+    frames?: boolean | FrameOptions;
+}
+
+export interface AttemptDetails {
+    count: number;
+    method: DetectionMethod;
+    timestamp: number;
+    details?: string;
+    /** Confidence from 0 to 1, for detectors that weigh several signals */
+    score?: number;
+    /** Signals that contributed to `score` */
+    strategies?: string[];
+    /** Activity a policy allowed, e.g. an approved screen share; logged without counting or locking */
+    allowed?: boolean;
+}
+
+/** Extra attempt fields a detector may pass along with its details */
+export type AttemptMetadata = Pick<AttemptDetails, 'score' | 'strategies' | 'allowed'>;
+
+export interface ScreenShareRequest {
+    /** Options the page passed to `getDisplayMedia` */
+    constraints?: DisplayMediaStreamOptions;
+    timestamp: number;
+}
+
+/** Resolves to true to let a screen share through */
+export type ScreenSharePolicy = (request: ScreenShareRequest) => boolean | Promise<boolean>;
+
+export interface EscalationRule {
+    /** Weighted attempt count at which the rule applies */
+    attempts: number;
+    /** Only count attempts from the last `within` ms */
+    within?: number;
+    /** Keep the lock on for at least this long (ms) */
+    lockDuration?: number;
+    /** Keep the lock on until `reset()` */
+    persistentLock?: boolean;
+    /** Call `onEscalate` when the threshold is crossed */
+    escalate?: boolean;
+}
+
+export interface EscalationDetails {
+    rule: EscalationRule;
+    score: number;
+    attempt: AttemptDetails;
+}
+
+export interface EscalationOptions {
+    rules: EscalationRule[];
+    weights?: Partial<Record<DetectionMethod, number>>;
+    /** How long an attempt counts toward rules without `within` (ms) */
+    decayAfter?: number;
+    onEscalate?: (details: EscalationDetails) => void;
+}
+
+/**
+ * Warning texts by locale (`en`, `de-AT`…), then by detection method.
+ * `default` covers methods without an entry of their own.
+ */
+export type WarningMessageCatalog = Record<string, Partial<Record<DetectionMethod | 'default', string>>>;
+
+export interface WatermarkOptions {
+    /** Identifying text; a function is re-evaluated on every render */
+    text: string | string[] | (() => string | string[]);
+    opacity?: number;
+    /** Rotation of each tile in degrees */
+    rotation?: number;
+    /** Font size in pixels */
+    fontSize?: number;
+    fontFamily?: string;
+    color?: string;
+    /** Tile size in pixels */
+    gap?: number;
+    includeTimestamp?: boolean;
+    /** Re-render every `refreshInterval` ms; 0 disables */
+    refreshInterval?: number;
+    onlyDuringLock?: boolean;
+}
+
+export interface ScreenshotPreventionEventMap {
+    attempt: AttemptDetails;
+    lockStart: AttemptDetails;
+    lockEnd: AttemptDetails;
+    reset: { previousCount: number };
+    optionsChanged: { options: Partial<ScreenshotPreventionOptions> };
+    escalate: EscalationDetails;
+    privacyChange: { masked: boolean; reason: PrivacyMaskReason | null };
+    destroyed: { attemptCount: number };
+}
+
+export type ScreenshotPreventionEvent = keyof ScreenshotPreventionEventMap;
+
+export interface ReportingOptions {
+    endpoint: string;
+    batchSize?: number;
+    flushInterval?: number;
+    maxRetries?: number;
+    retryDelay?: number;
+    maxQueueSize?: number;
+    headers?: Record<string, string>;
+    storageKey?: string;
+}
+
+export interface AttemptReport extends AttemptDetails {
+    sessionId: string;
+    url: string;
+    userAgent: string;
+    mousePosition: { x: number; y: number };
+}
+
+/**
+ * Theme values, each also settable from CSS through the matching custom
+ * property, e.g. `warningBackground` → `--screenshot-prevention-warning-background`
+ */
+export interface UIStyles {
+    overlayBackground: string;
+    /** Replaces `overlayBackground` where the browser can't blur; should be opaque */
+    overlayFallbackBackground: string;
+    warningBackground: string;
+    warningColor: string;
+    warningFontFamily: string;
+    warningFontSize: string;
+    warningPadding: string;
+    warningMaxWidth: string;
+    warningBorderRadius: string;
+    warningBoxShadow: string;
+    buttonBackground: string;
+    buttonColor: string;
+    linkColor: string;
+}
+
+export interface LockScreenOptions {
+    /** Show the time left until the lock lifts */
+    countdown?: boolean;
+    /** Countdown text; `{seconds}` is replaced with the seconds left */
+    countdownLabel?: string;
+    /** Label of a button that ends the lock early; no button when unset */
+    acknowledgeLabel?: string | null;
+    /** Link shown below the message, e.g. to the security team */
+    contact?: { href: string; label: string } | null;
+    /** Defaults to `auto` when there is a button or link to click, `none` otherwise */
+    pointerEvents?: 'auto' | 'none';
+}
+
+/** Fills the warning element with custom markup; `details` is null for locks from other tabs */
+export type WarningRenderer = (details: AttemptDetails | null, container: HTMLElement) => void;
+
+export interface CopyProtectionOptions {
+    /** Leave copy, cut and selection alone inside inputs, textareas and contenteditable */
+    allowInInputs?: boolean;
+    /** `block` cancels copy and cut; `attribute` lets them through with an attribution footer */
+    mode?: 'block' | 'attribute';
+    /** Footer appended in `attribute` mode, or a function returning the full clipboard text */
+    attribution?: string | ((selection: string) => string);
+    blockContextMenu?: boolean;
+    blockDrag?: boolean;
+}
+
+/**
+ * `size` compares the outer and inner window size, `console` logs a probe
+ * whose getter only runs when the console formats it and `debugger` times a
+ * `debugger` statement, which pauses while devtools are open
+ */
+export type DevToolsStrategy = 'size' | 'console' | 'debugger';
+
+export interface DevToolsDetectionOptions {
+    /** Strategies to run; `debugger` pauses open devtools, so it is opt-in, and `console` logs on resize, while `size` fires and otherwise every 10th check */
+    strategies?: DevToolsStrategy[];
+    /** Score each strategy adds when it fires */
+    weights?: Partial<Record<DevToolsStrategy, number>>;
+    /** Score at which devtools count as open */
+    threshold?: number;
+    /** Re-check every this many ms besides on resize; 0 disables */
+    checkInterval?: number;
+}
+
+export interface MediaProtectionOptions {
+    /** Elements to act on during a lock */
+    selector?: string;
+    /** `pause` pauses playing video and audio until the lock ends, `blank` also hides video frames */
+    playback?: 'pause' | 'blank' | 'none';
+    /** `exit` leaves Picture-in-Picture during a lock, `block` also refuses it at any time */
+    pictureInPicture?: 'exit' | 'block' | 'allow';
+    /** `hide` hides canvases during a lock, `clear` resets their bitmap so the page must redraw */
+    canvas?: 'hide' | 'clear' | 'none';
+}
+
+export interface FrameOptions {
+    /** Attach detectors inside same-origin iframes as they load */
+    sameOrigin?: boolean;
+    /** Origins whose frames may report detections over `postMessage`; `*` allows any */
+    allowedOrigins?: string[];
+}
+
+export interface ProtectionZoneOptions {
+    blurIntensity?: string;
+    maskColor?: string;
+    warningMessage?: string;
+}
+
+export type BuiltInDetectionMethod =
+    | 'keyboard'
+    | 'mobile'
+    | 'screenCapture'
+    | 'mediaRecording'
+    | 'visibilityChange'
+    | 'devTools'
+    | 'tamper'
+    | 'clipboard'
+    | 'print';
+
+// Custom detectors report under their own name; `string & {}` keeps
+// editor completion for the built-in names
+export type DetectionMethod = BuiltInDetectionMethod | (string & {});
+
+export interface PrivacyScreenOptions {
+    /** Mask while the window is blurred, hidden or being left */
+    maskOnBlur?: boolean;
+    /** Also mask after this many ms without interaction; 0 disables */
+    idleTimeout?: number;
+}
+
+export type PrivacyMaskReason = 'blur' | 'hidden' | 'idle';
+
+export interface SpotlightOptions {
+    /** Elements kept blurred outside the spotlight */
+    selector?: string;
+    /**
+     * `hover` follows the pointer, `press` reveals only while a button or
+     * finger is held down and `auto` uses hover for mice and pens, press for touch
+     */
+    mode?: 'auto' | 'hover' | 'press';
+    /** Radius of the readable circle in pixels */
+    radius?: number;
+    /** Blur outside the circle; defaults to `blurIntensity` */
+    blurIntensity?: string;
+}
+
+/** Options a route policy may override */
+export type RoutePolicyOptions = Omit<ScreenshotPreventionOptions, 'routes'>;
+
+export interface RoutePolicy {
+    /** Path pattern where `*` matches any run of characters, e.g. `/records/*` */
+    match: string;
+    /** `false` pauses protection while the route is active */
+    protect?: boolean;
+    /** Applied through `update()` on entering the route and undone on leaving it */
+    options?: RoutePolicyOptions;
+}
+
+export interface RoutingOptions {
+    /** Checked in order; the first match applies, no match means the base options */
+    policies?: RoutePolicy[];
+    /** URL of a JSON document `{ "policies": [...] }` loaded on setup */
+    source?: string;
+    /** Match against `location.pathname`, or the hash for hash-based routers */
+    mode?: 'path' | 'hash';
+}
+
+export interface SyncOptions {
+    /**
+     * Where the shared state persists: `session` survives reloads of a tab,
+     * `local` also carries over to new tabs and browser restarts
+     */
+    scope?: 'session' | 'local';
+    /** BroadcastChannel name, also the prefix of the storage keys */
+    channel?: string;
+}
+
+export type ShortcutPlatform = 'windows' | 'macos' | 'linux' | 'chromeos';
+
+/**
+ * A key combination reported by the keyboard detector. The rule matches when
+ * either `code` or `key` (case-insensitive) matches; a modifier set to `true`
+ * must be held, `false` must not be held and leaving it out ignores it
+ */
+export interface ShortcutRule {
+    /** Named in the attempt details, e.g. `windows.snippingTool` */
+    id: string;
+    description?: string;
+    key?: string;
+    code?: string;
+    ctrl?: boolean;
+    shift?: boolean;
+    alt?: boolean;
+    /** Cmd on macOS, the Windows key elsewhere */
+    meta?: boolean;
+}
+
+export interface ShortcutOptions {
+    /** Profiles to load; defaults to the detected platform, or all when unknown */
+    platforms?: ShortcutPlatform[];
+    /** Extra rules, matched after the profile rules */
+    add?: ShortcutRule[];
+    /** Ids of rules to drop, built-in or added */
+    remove?: string[];
+}
+
+/**
+ * What printing produces: `block` prints a blank page, `watermark` prints
+ * the page with the watermark layer and `printNotice`, `redact` hides
+ * elements marked `data-screenshot-prevention-redact` and `allow` prints
+ * the page as is
+ */
+export type PrintPolicy = 'block' | 'watermark' | 'redact' | 'allow';
+
+/**
+ * How to react when injected elements or patched APIs are altered:
+ * `restore` heals silently, `report` also raises a `tamper` detection and
+ * `lock` additionally holds the lock until `reset()`
+ */
+export type TamperProtectionLevel = 'off' | 'restore' | 'report' | 'lock';
+
+export type DetectorToggles = Partial<Record<DetectionMethod, boolean>>;
+
+export interface DetectorContext {
+    /** Routes a detection through the instance's attempt handling */
+    report(details?: string, metadata?: AttemptMetadata): void;
+    /** Masks protected content without a lock or warning until called with false */
+    mask(masked: boolean): void;
+    /** Window to watch: the page itself, or a same-origin frame for detectors marked `frames` */
+    readonly window: Window;
+    /** Keeps `target[key]` at its current value while tamper protection is on */
+    guardProperty(target: object, key: string): () => void;
+    readonly options: Readonly<Required<ScreenshotPreventionOptions>>;
+}
+
+export interface Detector {
+    readonly name: DetectionMethod;
+    /** Also attach inside same-origin iframes, watching `context.window` */
+    readonly frames?: boolean;
+    /** Whether the browser has the APIs the detector relies on; assumed when left out */
+    isSupported?(target: Window): boolean;
+    /** Starts detecting and returns a function that undoes everything attach did */
+    attach(context: DetectorContext): () => void;
+}
+
+export type ProtectionFeature =
+    | 'blur'
+    | 'zones'
+    | 'spotlight'
+    | 'privacyScreen'
+    | 'protectMedia'
+    | 'watermark'
+    | 'frames'
+    | 'sync'
+    | 'reporting'
+    | 'tamperProtection';
+
+/** How a feature copes without support: `opaque` masks without blurring */
+export type CapabilityFallback = 'opaque';
+
+export interface CapabilityStatus {
+    /** The browser has what the feature needs */
+    supported: boolean;
+    /** Turned on by the options */
+    enabled: boolean;
+    /** Protecting right now, natively or through a fallback */
+    active: boolean;
+    /** Set while a fallback stands in for missing support */
+    fallback?: CapabilityFallback;
+}
+
+export interface Capabilities {
+    /** Every registered detector, custom ones included */
+    detectors: Partial<Record<DetectionMethod, CapabilityStatus>>;
+    features: Record<ProtectionFeature, CapabilityStatus>;
+}
+
+export interface DiagnosticTimings {
+    /** Milliseconds from construction until protection was in place; null before setup */
+    setup: number | null;
+    /** Milliseconds from the last attempt that locked the page until the lock showed */
+    lastLockDelay: number | null;
+    /** How long the last finished lock stayed up */
+    lastLockDuration: number | null;
+}
+
+export interface Diagnostics {
+    /** When the report was taken */
+    timestamp: number;
+    userAgent: string;
+    active: boolean;
+    paused: boolean;
+    locked: boolean;
+    persistent: boolean;
+    /** Content is masked, by a lock, the privacy screen or a detector such as an approved screen share */
+    masked: boolean;
+    attemptCount: number;
+    /** End of the running lock; null when unlocked or persistent */
+    lockedUntil: number | null;
+    capabilities: Capabilities;
+    /** The most recent detections, allowed ones included, oldest first */
+    history: AttemptDetails[];
+    timings: DiagnosticTimings;
+}
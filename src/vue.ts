@@ -0,0 +1,56 @@
+import type { Directive, Plugin } from 'vue';
+import { acquireScreenshotPrevention, changedOptions, sameOptions, ScreenshotPreventionLease } from './shared';
+import { ProtectionZoneOptions, ScreenshotPreventionOptions } from './types';
+
+export interface ProtectBinding {
+    /** Options for the shared instance */
+    options?: Partial<ScreenshotPreventionOptions>;
+    /** Options for this element's protection zone */
+    zone?: ProtectionZoneOptions;
+}
+
+const leases = new WeakMap<HTMLElement, ScreenshotPreventionLease>();
+
+/**
+ * `v-protect`: makes the element a protection zone of the shared instance
+ * for as long as it is mounted, e.g. `v-protect="{ zone: { maskColor: '#000' } }"`
+ */
+export const vProtect: Directive<HTMLElement, ProtectBinding | undefined> = {
+    mounted(element, { value }) {
+        const lease = acquireScreenshotPrevention(value?.options);
+        leases.set(element, lease);
+        lease.instance.protect(element, value?.zone);
+    },
+
+    updated(element, { value, oldValue }) {
+        const lease = leases.get(element);
+        if (!lease) return;
+
+        // Inline binding objects are new on every render; only options whose
+        // values changed are passed on
+        const changes = changedOptions(oldValue?.options, value?.options ?? {});
+        if (Object.keys(changes).length > 0) {
+            lease.update(changes);
+        }
+        if (!sameOptions(value?.zone, oldValue?.zone)) {
+            lease.instance.unprotect(element);
+            lease.instance.protect(element, value?.zone);
+        }
+    },
+
+    unmounted(element) {
+        const lease = leases.get(element);
+        if (!lease) return;
+
+        leases.delete(element);
+        lease.instance.unprotect(element);
+        lease.release();
+    }
+};
+
+/** Registers `v-protect` globally: `app.use(ScreenshotPreventionPlugin)` */
+export const ScreenshotPreventionPlugin: Plugin = {
+    install(app) {
+        app.directive('protect', vProtect);
+    }
+};
@@ -0,0 +1,143 @@
+import { Disposables } from './disposables';
+import { WatermarkOptions } from './types';
+
+const defaultWatermarkOptions: Required<Omit<WatermarkOptions, 'text'>> = {
+    opacity: 0.08,
+    rotation: -30,
+    fontSize: 14,
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    color: '#000000',
+    gap: 180,
+    includeTimestamp: false,
+    refreshInterval: 0,
+    onlyDuringLock: false
+};
+
+function escapeXml(value: string): string {
+    return value.replace(/[<>&'"]/g, char => ({
+        '<': '&lt;',
+        '>': '&gt;',
+        '&': '&amp;',
+        '\'': '&apos;',
+        '"': '&quot;'
+    }[char] as string));
+}
+
+/**
+ * Tiles identifying text across the viewport so captures that slip past
+ * detection can still be traced. The tile is an SVG data URL used as a
+ * repeating background, which keeps the layer a single element.
+ */
+export class Watermark {
+    public readonly element = document.createElement('div');
+    private options: WatermarkOptions & typeof defaultWatermarkOptions;
+    private readonly disposables = new Disposables();
+    private locked = false;
+    private renderPending = false;
+    private refreshTimer: (() => void) | null = null;
+
+    constructor(options: WatermarkOptions) {
+        this.options = { ...defaultWatermarkOptions, ...options };
+
+        this.element.setAttribute('data-screenshot-prevention', 'watermark');
+        this.element.setAttribute('aria-hidden', 'true');
+        this.element.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100vw;
+            height: 100vh;
+            z-index: 2147483647;
+            pointer-events: none;
+            background-repeat: repeat;
+        `;
+    }
+
+    public get isVisible(): boolean {
+        return !this.options.onlyDuringLock || this.locked;
+    }
+
+    public start(parent: HTMLElement): void {
+        parent.appendChild(this.element);
+        this.render();
+        this.scheduleRefresh();
+
+        this.disposables.listen(window, 'resize', () => {
+            if (this.renderPending) return;
+
+            this.renderPending = true;
+            requestAnimationFrame(() => {
+                this.renderPending = false;
+                this.render();
+            });
+        }, { passive: true });
+    }
+
+    public stop(): void {
+        this.disposables.dispose();
+        this.element.remove();
+    }
+
+    public configure(options: Partial<WatermarkOptions>): void {
+        this.options = { ...this.options, ...options };
+
+        if (options.refreshInterval !== undefined) {
+            this.scheduleRefresh();
+        }
+
+        this.render();
+    }
+
+    public setLocked(locked: boolean): void {
+        this.locked = locked;
+        this.updateVisibility();
+    }
+
+    public render(): void {
+        const { opacity, rotation, fontSize, fontFamily, color, gap } = this.options;
+        const lines = this.resolveLines();
+        const lineHeight = fontSize * 1.4;
+        const firstLine = gap / 2 - ((lines.length - 1) * lineHeight) / 2;
+
+        const text = lines.map((line, index) =>
+            `<text x="50%" y="${firstLine + index * lineHeight}" text-anchor="middle">${escapeXml(line)}</text>`
+        ).join('');
+
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${gap}" height="${gap}">` +
+            `<g transform="rotate(${rotation} ${gap / 2} ${gap / 2})" fill="${escapeXml(color)}" ` +
+            `fill-opacity="${opacity}" font-size="${fontSize}" font-family="${escapeXml(fontFamily)}">` +
+            `${text}</g></svg>`;
+
+        // Parentheses and quotes are escaped too so the URL survives CSS parsing
+        const encoded = encodeURIComponent(svg).replace(/[()']/g, char => `%${char.charCodeAt(0).toString(16)}`);
+        this.element.style.backgroundImage = `url("data:image/svg+xml;charset=utf-8,${encoded}")`;
+        this.element.style.backgroundSize = `${gap}px ${gap}px`;
+        this.updateVisibility();
+    }
+
+    private resolveLines(): string[] {
+        const { text, includeTimestamp } = this.options;
+        const resolved = typeof text === 'function' ? text() : text;
+        const lines = Array.isArray(resolved) ? resolved.slice() : [resolved];
+
+        if (includeTimestamp) {
+            lines.push(new Date().toISOString());
+        }
+
+        return lines;
+    }
+
+    private updateVisibility(): void {
+        this.element.style.display = this.isVisible ? 'block' : 'none';
+    }
+
+    private scheduleRefresh(): void {
+        this.refreshTimer?.();
+        this.refreshTimer = null;
+
+        if (this.options.refreshInterval > 0) {
+            const interval = window.setInterval(() => this.render(), this.options.refreshInterval);
+            this.refreshTimer = this.disposables.add(() => window.clearInterval(interval));
+        }
+    }
+}
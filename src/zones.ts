@@ -0,0 +1,197 @@
+import { supportsBackdropFilter } from './capabilities';
+import { ProtectionZoneOptions, UIStyles } from './types';
+
+export interface ZoneDefaults {
+    blurIntensity: string;
+    warningMessage: string;
+    styles: UIStyles;
+}
+
+interface ProtectionZone {
+    element: HTMLElement;
+    mask: HTMLDivElement;
+    label: HTMLDivElement;
+    options: ProtectionZoneOptions;
+}
+
+/**
+ * Tracks individually protected DOM regions and masks them during a lock.
+ * Masks are fixed-position siblings appended to the body, so they follow
+ * their element through scrolling, resizing and removal without touching
+ * the host markup.
+ */
+export class ProtectionZones {
+    private readonly zones = new Map<HTMLElement, ProtectionZone>();
+    private visible = false;
+    private repositionPending = false;
+    private resizeObserver: ResizeObserver | null = null;
+    private mutationObserver: MutationObserver | null = null;
+    private readonly scheduleReposition = () => {
+        if (this.repositionPending || !this.visible) return;
+
+        this.repositionPending = true;
+        requestAnimationFrame(() => {
+            this.repositionPending = false;
+            this.reposition();
+        });
+    };
+
+    constructor(private readonly getDefaults: () => ZoneDefaults) {}
+
+    public get size(): number {
+        return this.zones.size;
+    }
+
+    public has(element: HTMLElement): boolean {
+        return this.zones.has(element);
+    }
+
+    public add(element: HTMLElement, options: ProtectionZoneOptions = {}): void {
+        const existing = this.zones.get(element);
+        if (existing) {
+            existing.options = { ...existing.options, ...options };
+            this.applyZoneStyles(existing);
+            return;
+        }
+
+        if (this.zones.size === 0) {
+            this.observe();
+        }
+
+        const zone = this.createZone(element, options);
+        this.zones.set(element, zone);
+        document.body.appendChild(zone.mask);
+        this.resizeObserver?.observe(element);
+
+        if (this.visible) {
+            this.positionZone(zone);
+            zone.mask.style.display = 'flex';
+        }
+    }
+
+    public remove(element: HTMLElement): void {
+        const zone = this.zones.get(element);
+        if (!zone) return;
+
+        zone.mask.remove();
+        this.resizeObserver?.unobserve(element);
+        this.zones.delete(element);
+
+        if (this.zones.size === 0) {
+            this.disconnect();
+        }
+    }
+
+    public show(): void {
+        this.visible = true;
+        this.zones.forEach(zone => {
+            this.positionZone(zone);
+            zone.mask.style.display = 'flex';
+        });
+    }
+
+    public hide(): void {
+        this.visible = false;
+        this.zones.forEach(zone => {
+            zone.mask.style.display = 'none';
+        });
+    }
+
+    public refresh(): void {
+        this.zones.forEach(zone => this.applyZoneStyles(zone));
+    }
+
+    public clear(): void {
+        Array.from(this.zones.keys()).forEach(element => this.remove(element));
+        this.visible = false;
+    }
+
+    private createZone(element: HTMLElement, options: ProtectionZoneOptions): ProtectionZone {
+        const mask = document.createElement('div');
+        mask.setAttribute('data-screenshot-prevention', 'zone');
+        mask.style.cssText = `
+            position: fixed;
+            z-index: 2147483646;
+            display: none;
+            align-items: center;
+            justify-content: center;
+            overflow: hidden;
+            text-align: center;
+            pointer-events: none;
+        `;
+
+        const label = document.createElement('div');
+        label.setAttribute('data-screenshot-prevention', 'zone-warning');
+        label.style.padding = '8px';
+        mask.appendChild(label);
+
+        const zone = { element, mask, label, options };
+        this.applyZoneStyles(zone);
+        return zone;
+    }
+
+    private applyZoneStyles(zone: ProtectionZone): void {
+        const defaults = this.getDefaults();
+        const blurValue = `blur(${zone.options.blurIntensity ?? defaults.blurIntensity})`;
+
+        zone.mask.style.backdropFilter = blurValue;
+        zone.mask.style.setProperty('-webkit-backdrop-filter', blurValue);
+        zone.mask.style.background = zone.options.maskColor ?? (supportsBackdropFilter()
+            ? defaults.styles.overlayBackground
+            : defaults.styles.overlayFallbackBackground);
+        zone.mask.style.color = defaults.styles.warningColor;
+        zone.mask.style.fontFamily = defaults.styles.warningFontFamily;
+        zone.label.textContent = zone.options.warningMessage ?? defaults.warningMessage;
+    }
+
+    private positionZone(zone: ProtectionZone): void {
+        const rect = zone.element.getBoundingClientRect();
+
+        Object.assign(zone.mask.style, {
+            top: `${rect.top}px`,
+            left: `${rect.left}px`,
+            width: `${rect.width}px`,
+            height: `${rect.height}px`
+        });
+    }
+
+    private reposition(): void {
+        this.zones.forEach(zone => this.positionZone(zone));
+    }
+
+    private pruneDetached(): void {
+        this.zones.forEach((zone, element) => {
+            if (!element.isConnected) {
+                this.remove(element);
+            }
+        });
+    }
+
+    private observe(): void {
+        const listenerOptions = { capture: true, passive: true };
+        window.addEventListener('scroll', this.scheduleReposition, listenerOptions);
+        window.addEventListener('resize', this.scheduleReposition, listenerOptions);
+
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(this.scheduleReposition);
+        }
+
+        if (typeof MutationObserver !== 'undefined') {
+            this.mutationObserver = new MutationObserver(() => {
+                this.pruneDetached();
+                this.scheduleReposition();
+            });
+            this.mutationObserver.observe(document.body, { childList: true, subtree: true });
+        }
+    }
+
+    private disconnect(): void {
+        window.removeEventListener('scroll', this.scheduleReposition, true);
+        window.removeEventListener('resize', this.scheduleReposition, true);
+
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+        this.mutationObserver?.disconnect();
+        this.mutationObserver = null;
+    }
+}
@@ -0,0 +1,92 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention, { createScreenshotPrevention } from '../src/index';
+import { findAutoInitScript, readDeclarativeOptions } from '../src/autoinit';
+
+describe('Declarative initialization', () => {
+  let prevention: ReturnType<typeof createScreenshotPrevention> | null;
+
+  const addScript = (attributes: Record<string, string>) => {
+    const script = document.createElement('script');
+    Object.keys(attributes).forEach(name => script.setAttribute(name, attributes[name]));
+    document.head.appendChild(script);
+    return script;
+  };
+
+  const addConfigBlock = (json: string) => {
+    const block = document.createElement('script');
+    block.type = 'application/json';
+    block.setAttribute('data-screenshot-prevention-config', '');
+    block.textContent = json;
+    document.body.appendChild(block);
+  };
+
+  beforeEach(() => {
+    document.head.innerHTML = '';
+    document.body.innerHTML = '';
+    prevention = null;
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(() => {
+    prevention?.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should find the script tag marked for auto-init', () => {
+    addScript({ src: 'other.js' });
+    const script = addScript({ src: 'screenshot-prevention.min.js', 'data-auto-init': '' });
+
+    expect(findAutoInitScript()).toBe(script);
+  });
+
+  it('should parse data attributes by option type', () => {
+    const script = addScript({
+      'data-auto-init': '',
+      'data-warning-message': 'No captures',
+      'data-recovery-delay': '3000',
+      'data-prevent-copy': 'false',
+      'data-debug': '',
+      'data-print-policy': 'redact'
+    });
+
+    expect(readDeclarativeOptions(script)).toEqual({
+      warningMessage: 'No captures',
+      recoveryDelay: 3000,
+      preventCopy: false,
+      debug: true,
+      printPolicy: 'redact'
+    });
+  });
+
+  it('should merge the JSON config block under the attributes', () => {
+    addConfigBlock('{ "watermark": { "text": "ACME" }, "recoveryDelay": 1000 }');
+    const script = addScript({ 'data-auto-init': '', 'data-recovery-delay': '5000' });
+
+    expect(readDeclarativeOptions(script)).toEqual({
+      watermark: { text: 'ACME' },
+      recoveryDelay: 5000
+    });
+  });
+
+  it('should ignore an invalid config block', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    addConfigBlock('{ not json');
+
+    expect(readDeclarativeOptions(null)).toEqual({});
+    expect(error).toHaveBeenCalled();
+  });
+
+  it('should return the shared instance from the factory in the browser', () => {
+    prevention = createScreenshotPrevention({ warningMessage: 'Factory' });
+
+    expect(prevention).toBeInstanceOf(EnhancedScreenshotPrevention);
+    expect(createScreenshotPrevention()).toBe(prevention);
+    expect(prevention.isActive()).toBe(true);
+  });
+});
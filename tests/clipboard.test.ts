@@ -0,0 +1,133 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Copy protection', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+  let paragraph: HTMLElement;
+  let input: HTMLInputElement;
+
+  // jsdom has no ClipboardEvent; a cancelable Event with clipboardData attached
+  // exercises the same code path
+  const dispatchClipboard = (target: Element, type: 'copy' | 'cut') => {
+    const data: Record<string, string> = {};
+    const event = new Event(type, { bubbles: true, cancelable: true });
+    Object.defineProperty(event, 'clipboardData', {
+      value: { setData: (format: string, value: string) => { data[format] = value; } }
+    });
+    target.dispatchEvent(event);
+    return { event, data };
+  };
+
+  const dispatch = (target: Element, type: string) => {
+    const event = new Event(type, { bubbles: true, cancelable: true });
+    target.dispatchEvent(event);
+    return event;
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '<p>Confidential</p><input value="editable">';
+    paragraph = document.querySelector('p')!;
+    input = document.querySelector('input')!;
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should block copy and cut outside a lock and report them', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    expect(dispatchClipboard(paragraph, 'copy').event.defaultPrevented).toBe(true);
+    expect(dispatchClipboard(paragraph, 'cut').event.defaultPrevented).toBe(true);
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'clipboard',
+      details: 'Copy blocked'
+    }));
+    expect(mockHandler).toHaveBeenLastCalledWith(expect.objectContaining({ details: 'Cut blocked' }));
+  });
+
+  it('should block the context menu and dragging', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    expect(dispatch(paragraph, 'contextmenu').defaultPrevented).toBe(true);
+    expect(dispatch(paragraph, 'dragstart').defaultPrevented).toBe(true);
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prevent selection without counting an attempt', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    expect(dispatch(paragraph, 'selectstart').defaultPrevented).toBe(true);
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should allow copying inside form inputs by default', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    expect(dispatchClipboard(input, 'copy').event.defaultPrevented).toBe(false);
+    expect(dispatch(input, 'selectstart').defaultPrevented).toBe(false);
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should block inputs too when allowInInputs is off', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      preventCopy: { allowInInputs: false }
+    });
+
+    expect(dispatchClipboard(input, 'copy').event.defaultPrevented).toBe(true);
+  });
+
+  it('should honour the context menu and drag sub-options', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      preventCopy: { blockContextMenu: false, blockDrag: false }
+    });
+
+    expect(dispatch(paragraph, 'contextmenu').defaultPrevented).toBe(false);
+    expect(dispatch(paragraph, 'dragstart').defaultPrevented).toBe(false);
+  });
+
+  it('should add an attribution footer in attribute mode', () => {
+    jest.spyOn(document, 'getSelection').mockReturnValue({ toString: () => 'Confidential' } as Selection);
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      preventCopy: { mode: 'attribute', attribution: '\n-- Copied from Acme' }
+    });
+
+    const { event, data } = dispatchClipboard(paragraph, 'copy');
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(data['text/plain']).toBe('Confidential\n-- Copied from Acme');
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should accept an attribution function', () => {
+    jest.spyOn(document, 'getSelection').mockReturnValue({ toString: () => 'Confidential' } as Selection);
+    prevention = new EnhancedScreenshotPrevention({
+      preventCopy: { mode: 'attribute', attribution: (text) => `"${text}" (Acme)` }
+    });
+
+    expect(dispatchClipboard(paragraph, 'copy').data['text/plain']).toBe('"Confidential" (Acme)');
+  });
+
+  it('should stop intercepting when preventCopy is turned off', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    prevention.update({ preventCopy: false });
+
+    expect(dispatchClipboard(paragraph, 'copy').event.defaultPrevented).toBe(false);
+    expect(prevention.isDetectorEnabled('clipboard')).toBe(false);
+  });
+});
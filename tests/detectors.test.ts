@@ -0,0 +1,132 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention, { Detector, DetectorContext } from '../src/index';
+
+describe('Detector registry', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+
+  const createDetector = (name: string) => {
+    let context: DetectorContext | null = null;
+    const teardown = jest.fn();
+    const detector: Detector = {
+      name,
+      attach: jest.fn((ctx: DetectorContext) => {
+        context = ctx;
+        return teardown;
+      })
+    };
+
+    return { detector, teardown, report: (details?: string) => context?.report(details) };
+  };
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.clearAllMocks();
+  });
+
+  it('should route custom detections through the attempt handler', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    const { detector, report } = createDetector('clipboardSpy');
+
+    prevention.registerDetector(detector);
+    report('Suspicious clipboard access');
+
+    expect(detector.attach).toHaveBeenCalledTimes(1);
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'clipboardSpy',
+      details: 'Suspicious clipboard access',
+      count: 1
+    }));
+  });
+
+  it('should reject duplicate detector names', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    expect(() => prevention.registerDetector(createDetector('keyboard').detector))
+      .toThrow('Detector "keyboard" is already registered');
+  });
+
+  it('should not attach detectors disabled through options', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      detectors: { keyboard: false, custom: false }
+    });
+    const { detector } = createDetector('custom');
+
+    prevention.registerDetector(detector);
+    pressPrintScreen();
+
+    expect(detector.attach).not.toHaveBeenCalled();
+    expect(mockHandler).not.toHaveBeenCalled();
+    expect(prevention.isDetectorEnabled('keyboard')).toBe(false);
+  });
+
+  it('should enable and disable detectors at runtime', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    const { detector, teardown } = createDetector('custom');
+    prevention.registerDetector(detector);
+
+    prevention.disableDetector('keyboard');
+    prevention.disableDetector('custom');
+    pressPrintScreen();
+
+    expect(mockHandler).not.toHaveBeenCalled();
+    expect(teardown).toHaveBeenCalledTimes(1);
+
+    prevention.enableDetector('keyboard');
+    prevention.enableDetector('custom');
+    pressPrintScreen();
+
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(detector.attach).toHaveBeenCalledTimes(2);
+  });
+
+  it('should apply detector toggles passed to update', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    prevention.update({ detectors: { mobile: false } });
+
+    expect(prevention.isDetectorEnabled('mobile')).toBe(false);
+    expect(prevention.isDetectorEnabled('keyboard')).toBe(true);
+  });
+
+  it('should follow preventInspect for devtools detection', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, preventInspect: false });
+
+    expect(prevention.isDetectorEnabled('devTools')).toBe(false);
+
+    prevention.update({ preventInspect: true });
+    expect(prevention.isDetectorEnabled('devTools')).toBe(true);
+  });
+
+  it('should tear down detectors on unregister', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    const { detector, teardown } = createDetector('custom');
+
+    prevention.registerDetector(detector);
+    prevention.unregisterDetector('custom');
+
+    expect(teardown).toHaveBeenCalledTimes(1);
+    expect(prevention.isDetectorEnabled('custom')).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('DevTools detection', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+  let intervals: Array<() => void>;
+  let consoleOpen: boolean;
+
+  const runChecks = () => intervals.forEach(cb => cb());
+
+  const dockDevTools = (docked: boolean) => {
+    Object.defineProperty(window, 'outerWidth', {
+      value: window.innerWidth + (docked ? 400 : 0),
+      configurable: true
+    });
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    intervals = [];
+    consoleOpen = false;
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb) => {
+      (cb as () => void)();
+      return 0 as any;
+    });
+
+    jest.spyOn(window, 'setInterval').mockImplementation((cb) => {
+      intervals.push(cb as () => void);
+      return intervals.length as any;
+    });
+
+    // An open console renders the probe and so reads its id
+    jest.spyOn(console, 'debug').mockImplementation((probe: any) => {
+      if (consoleOpen) void probe.id;
+    });
+
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    dockDevTools(false);
+    jest.restoreAllMocks();
+  });
+
+  it('should not fire on the size heuristic alone', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    dockDevTools(true);
+    window.dispatchEvent(new Event('resize'));
+    runChecks();
+
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should report the score and strategies that fired', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    dockDevTools(true);
+    consoleOpen = true;
+    runChecks();
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'devTools',
+      details: 'Developer tools detected',
+      score: 1,
+      strategies: ['size', 'console']
+    }));
+  });
+
+  it('should catch undocked devtools through the console probe on resize', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    consoleOpen = true;
+    window.dispatchEvent(new Event('resize'));
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      score: 0.7,
+      strategies: ['console']
+    }));
+  });
+
+  it('should catch undocked devtools on every tenth interval check', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    consoleOpen = true;
+    for (let i = 0; i < 9; i++) runChecks();
+    expect(mockHandler).not.toHaveBeenCalled();
+
+    runChecks();
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      score: 0.7,
+      strategies: ['console']
+    }));
+    expect(console.debug).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not log the console probe on interval checks without the size signal', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    runChecks();
+    runChecks();
+    expect(console.debug).not.toHaveBeenCalled();
+
+    dockDevTools(true);
+    runChecks();
+    expect(console.debug).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report once per opening', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    dockDevTools(true);
+    consoleOpen = true;
+    runChecks();
+    runChecks();
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+
+    dockDevTools(false);
+    runChecks();
+    dockDevTools(true);
+    runChecks();
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should honour a custom threshold and weights', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      preventInspect: { threshold: 0.3, weights: { size: 0.4 } }
+    });
+
+    dockDevTools(true);
+    window.dispatchEvent(new Event('resize'));
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      score: 0.4,
+      strategies: ['size']
+    }));
+  });
+
+  it('should time the debugger probe when enabled', () => {
+    const now = jest.spyOn(performance, 'now');
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      preventInspect: { strategies: ['debugger'] }
+    });
+
+    now.mockReturnValueOnce(0).mockReturnValueOnce(500);
+    runChecks();
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      strategies: ['debugger']
+    }));
+  });
+
+  it('should apply a new check interval on update', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    prevention.update({ preventInspect: { checkInterval: 0 } });
+    intervals = [];
+    prevention.update({ preventInspect: { checkInterval: 5000 } });
+
+    expect(window.setInterval).toHaveBeenLastCalledWith(expect.any(Function), 5000);
+  });
+});
@@ -0,0 +1,124 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Diagnostics', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let timers: Array<() => void>;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+  };
+  const endLock = () => timers.splice(0).forEach(cb => cb());
+  const getOverlay = () => document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    timers = [];
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb) => {
+      timers.push(cb as () => void);
+      return timers.length as any;
+    });
+    jest.spyOn(window, 'setInterval').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    delete (window as any).CSS;
+    jest.restoreAllMocks();
+  });
+
+  it('should report support, toggles and state per detector', () => {
+    const { visualViewport } = window;
+    (window as any).visualViewport = null;
+    try {
+      prevention = new EnhancedScreenshotPrevention({ preventInspect: false });
+
+      const { detectors } = prevention.getCapabilities();
+
+      expect(detectors.keyboard).toEqual({ supported: true, enabled: true, active: true });
+      expect(detectors.devTools).toEqual({ supported: true, enabled: false, active: false });
+      expect(detectors.mobile).toEqual({ supported: false, enabled: true, active: false });
+      expect(detectors.screenCapture).toEqual({ supported: true, enabled: true, active: true });
+    } finally {
+      (window as any).visualViewport = visualViewport;
+    }
+
+    prevention.pause();
+    expect(prevention.getCapabilities().detectors.keyboard).toEqual({ supported: true, enabled: true, active: false });
+  });
+
+  it('should report which features are on', () => {
+    prevention = new EnhancedScreenshotPrevention({ privacyScreen: true, tamperProtection: 'off' });
+
+    const { features } = prevention.getCapabilities();
+
+    expect(features.privacyScreen).toEqual({ supported: true, enabled: true, active: true });
+    expect(features.tamperProtection).toEqual({ supported: true, enabled: false, active: false });
+    expect(features.watermark.enabled).toBe(false);
+
+    prevention.update({ privacyScreen: false });
+    expect(prevention.getCapabilities().features.privacyScreen.active).toBe(false);
+  });
+
+  it('should fall back to an opaque overlay where blur is unsupported', () => {
+    prevention = new EnhancedScreenshotPrevention();
+
+    expect(getOverlay().getAttribute('data-screenshot-prevention-fallback')).toBe('opaque');
+    expect(document.head.querySelector('style')!.textContent)
+      .toContain('var(--screenshot-prevention-overlay-fallback-background, #ffffff)');
+    expect(prevention.getCapabilities().features.blur).toEqual({
+      supported: false,
+      enabled: true,
+      active: true,
+      fallback: 'opaque'
+    });
+
+    (window as any).CSS = { supports: (property: string) => property === '-webkit-backdrop-filter' };
+    prevention.update({ blurIntensity: '30px' });
+
+    expect(getOverlay().hasAttribute('data-screenshot-prevention-fallback')).toBe(false);
+    expect(prevention.getCapabilities().features.blur).toEqual({ supported: true, enabled: true, active: true });
+  });
+
+  it('should keep recent detections and lock timings', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    prevention = new EnhancedScreenshotPrevention();
+
+    for (let i = 0; i < 25; i++) {
+      pressPrintScreen();
+    }
+    now.mockReturnValue(4000);
+    endLock();
+
+    const diagnostics = prevention.getDiagnostics();
+
+    expect(diagnostics.history).toHaveLength(20);
+    expect(diagnostics.history[0].count).toBe(6);
+    expect(diagnostics.history[19]).toEqual(expect.objectContaining({
+      count: 25,
+      method: 'keyboard',
+      details: 'Screenshot shortcut detected: windows.printScreen'
+    }));
+    expect(diagnostics.timings).toEqual({ setup: 0, lastLockDelay: 0, lastLockDuration: 3000 });
+    expect(diagnostics).toEqual(expect.objectContaining({
+      active: true,
+      locked: false,
+      attemptCount: 25,
+      lockedUntil: null
+    }));
+  });
+
+  it('should hand out copies of the history', () => {
+    prevention = new EnhancedScreenshotPrevention();
+    pressPrintScreen();
+
+    prevention.getDiagnostics().history[0].details = 'changed';
+
+    expect(prevention.getDiagnostics().history[0].details).toBe('Screenshot shortcut detected: windows.printScreen');
+  });
+});
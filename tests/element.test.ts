@@ -0,0 +1,92 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createScreenshotPrevention } from '../src/index';
+import '../src/element';
+
+describe('<protected-content>', () => {
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+  };
+
+  const getMasks = () =>
+    Array.from(document.querySelectorAll('[data-screenshot-prevention="zone"]')) as HTMLElement[];
+  const getOverlay = () => document.querySelector('[data-screenshot-prevention="overlay"]');
+  const flushMicrotasks = () => Promise.resolve();
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(async () => {
+    document.body.innerHTML = '';
+    await flushMicrotasks();
+    jest.restoreAllMocks();
+  });
+
+  it('should protect its content with options from its attributes', () => {
+    document.body.innerHTML = '<protected-content warning-message="Records are confidential">SSN</protected-content>';
+
+    expect(getMasks()).toHaveLength(1);
+
+    pressPrintScreen();
+
+    expect(getMasks()[0].style.display).toBe('flex');
+    expect(getMasks()[0].textContent).toBe('Records are confidential');
+  });
+
+  it('should apply changed attributes', () => {
+    document.body.innerHTML = '<protected-content>SSN</protected-content>';
+    const instance = createScreenshotPrevention();
+    const update = jest.spyOn(instance, 'update');
+
+    document.querySelector('protected-content')!.setAttribute('recovery-delay', '5000');
+
+    expect(update).toHaveBeenCalledWith({ recoveryDelay: 5000 });
+  });
+
+  it('should keep protection up until the last element leaves', async () => {
+    document.body.innerHTML = '<protected-content>A</protected-content><protected-content>B</protected-content>';
+    const [first, second] = Array.from(document.querySelectorAll('protected-content'));
+
+    first.remove();
+    await flushMicrotasks();
+
+    expect(getOverlay()).not.toBeNull();
+    expect(getMasks()).toHaveLength(1);
+
+    second.remove();
+    await flushMicrotasks();
+
+    expect(getOverlay()).toBeNull();
+  });
+
+  it('should leave an instance the app created itself running', async () => {
+    const app = createScreenshotPrevention();
+    document.body.insertAdjacentHTML('beforeend', '<protected-content>SSN</protected-content>');
+
+    document.querySelector('protected-content')!.remove();
+    await flushMicrotasks();
+
+    expect(app.isActive()).toBe(true);
+    expect(getOverlay()).not.toBeNull();
+    expect(getMasks()).toHaveLength(0);
+    app.destroy();
+  });
+
+  it('should survive being moved within the page', async () => {
+    document.body.innerHTML = '<aside></aside><protected-content>A</protected-content>';
+    const element = document.querySelector('protected-content')!;
+    const instance = createScreenshotPrevention();
+
+    document.querySelector('aside')!.appendChild(element);
+    await flushMicrotasks();
+
+    expect(createScreenshotPrevention()).toBe(instance);
+    expect(getMasks()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Escalation policy', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let timeoutSpy: jest.SpiedFunction<typeof window.setTimeout>;
+  let now: number;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  const lastRecoveryDelay = () => timeoutSpy.mock.calls[timeoutSpy.mock.calls.length - 1][1];
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    now = 1000000;
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    timeoutSpy = jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should extend the lock once a windowed threshold is reached', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      escalation: { rules: [{ attempts: 3, within: 60000, lockDuration: 30000 }] }
+    });
+
+    pressPrintScreen();
+    pressPrintScreen();
+    expect(lastRecoveryDelay()).toBe(2000);
+
+    pressPrintScreen();
+    expect(lastRecoveryDelay()).toBe(30000);
+  });
+
+  it('should not let a shorter recoveryDelay cut an escalated lock short', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      escalation: { rules: [{ attempts: 3, within: 60000, lockDuration: 30000 }] }
+    });
+    const lockStart = now;
+
+    pressPrintScreen();
+    pressPrintScreen();
+    pressPrintScreen();
+    now += 1000;
+
+    prevention.update({ recoveryDelay: 2000 });
+    expect(lastRecoveryDelay()).toBe(29000);
+    expect(prevention.getDiagnostics().lockedUntil).toBe(lockStart + 30000);
+
+    prevention.update({ recoveryDelay: 60000 });
+    expect(lastRecoveryDelay()).toBe(59000);
+    expect(prevention.getDiagnostics().lockedUntil).toBe(lockStart + 60000);
+  });
+
+  it('should only count attempts inside the rule window', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      escalation: { rules: [{ attempts: 2, within: 60000, lockDuration: 30000 }] }
+    });
+
+    pressPrintScreen();
+    now += 61000;
+    pressPrintScreen();
+
+    expect(lastRecoveryDelay()).toBe(2000);
+  });
+
+  it('should keep a persistent lock until reset', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      escalation: { rules: [{ attempts: 2, persistentLock: true }] }
+    });
+    const overlay = () => document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+
+    pressPrintScreen();
+    timeoutSpy.mockClear();
+    pressPrintScreen();
+
+    expect(timeoutSpy).not.toHaveBeenCalled();
+    expect(overlay().style.display).toBe('block');
+
+    prevention.reset();
+    pressPrintScreen();
+
+    expect(overlay().style.display).toBe('block');
+    expect(lastRecoveryDelay()).toBe(2000);
+  });
+
+  it('should invoke onEscalate once per threshold crossing', () => {
+    const onEscalate = jest.fn();
+    const onEvent = jest.fn();
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      escalation: { rules: [{ attempts: 2, escalate: true }], onEscalate }
+    });
+    prevention.on('escalate', onEvent);
+
+    pressPrintScreen();
+    pressPrintScreen();
+    pressPrintScreen();
+
+    expect(onEscalate).toHaveBeenCalledTimes(1);
+    expect(onEscalate).toHaveBeenCalledWith(expect.objectContaining({
+      score: 2,
+      attempt: expect.objectContaining({ count: 2 })
+    }));
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should weight detections by method', () => {
+    const onEscalate = jest.fn();
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      escalation: {
+        rules: [{ attempts: 3, escalate: true }],
+        weights: { keyboard: 3 },
+        onEscalate
+      }
+    });
+
+    pressPrintScreen();
+
+    expect(onEscalate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forget attempts after decayAfter', () => {
+    const onEscalate = jest.fn();
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      escalation: { rules: [{ attempts: 2, escalate: true }], decayAfter: 10000, onEscalate }
+    });
+
+    pressPrintScreen();
+    now += 11000;
+    pressPrintScreen();
+
+    expect(onEscalate).not.toHaveBeenCalled();
+  });
+});
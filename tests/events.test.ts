@@ -0,0 +1,148 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Events', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let recoveryCallbacks: Array<() => void>;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    recoveryCallbacks = [];
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb) => {
+      recoveryCallbacks.push(cb as () => void);
+      return 0 as any;
+    });
+
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: jest.fn() });
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.clearAllMocks();
+  });
+
+  it('should emit attempt and lockStart on detection', () => {
+    const onAttempt = jest.fn();
+    const onLockStart = jest.fn();
+    prevention.on('attempt', onAttempt);
+    prevention.on('lockStart', onLockStart);
+
+    pressPrintScreen();
+
+    const expected = expect.objectContaining({ method: 'keyboard', count: 1 });
+    expect(onAttempt).toHaveBeenCalledWith(expected);
+    expect(onLockStart).toHaveBeenCalledWith(expected);
+  });
+
+  it('should emit lockStart only once for overlapping detections', () => {
+    const onLockStart = jest.fn();
+    prevention.on('lockStart', onLockStart);
+
+    pressPrintScreen();
+    pressPrintScreen();
+
+    expect(onLockStart).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit lockEnd when the recovery delay elapses', () => {
+    const onLockEnd = jest.fn();
+    prevention.on('lockEnd', onLockEnd);
+
+    pressPrintScreen();
+    recoveryCallbacks.forEach(cb => cb());
+
+    expect(onLockEnd).toHaveBeenCalledWith(expect.objectContaining({ method: 'keyboard' }));
+  });
+
+  it('should emit reset with the previous count', () => {
+    const onReset = jest.fn();
+    prevention.on('reset', onReset);
+
+    pressPrintScreen();
+    prevention.reset();
+
+    expect(onReset).toHaveBeenCalledWith({ previousCount: 1 });
+  });
+
+  it('should emit optionsChanged with the applied options', () => {
+    const onChange = jest.fn();
+    prevention.on('optionsChanged', onChange);
+
+    prevention.update({ recoveryDelay: 5000 });
+
+    expect(onChange).toHaveBeenCalledWith({ options: { recoveryDelay: 5000 } });
+  });
+
+  it('should stop calling handlers removed with off', () => {
+    const onAttempt = jest.fn();
+    prevention.on('attempt', onAttempt);
+    prevention.off('attempt', onAttempt);
+
+    pressPrintScreen();
+
+    expect(onAttempt).not.toHaveBeenCalled();
+  });
+
+  it('should call once handlers a single time', () => {
+    const onAttempt = jest.fn();
+    prevention.once('attempt', onAttempt);
+
+    pressPrintScreen();
+    pressPrintScreen();
+
+    expect(onAttempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep notifying other handlers when one throws', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const onAttempt = jest.fn();
+    prevention.on('attempt', () => {
+      throw new Error('boom');
+    });
+    prevention.on('attempt', onAttempt);
+
+    pressPrintScreen();
+
+    expect(onAttempt).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should dispatch DOM CustomEvents on document', () => {
+    const listener = jest.fn();
+    document.addEventListener('screenshot-prevention:attempt', listener);
+
+    pressPrintScreen();
+
+    const event = listener.mock.calls[0][0] as CustomEvent;
+    expect(event.detail).toEqual(expect.objectContaining({ method: 'keyboard', count: 1 }));
+    document.removeEventListener('screenshot-prevention:attempt', listener);
+  });
+
+  it('should emit destroyed and drop handlers on destroy', () => {
+    const onDestroyed = jest.fn();
+    const onReset = jest.fn();
+    prevention.on('destroyed', onDestroyed);
+    prevention.on('reset', onReset);
+
+    pressPrintScreen();
+    prevention.destroy();
+    prevention.reset();
+
+    expect(onDestroyed).toHaveBeenCalledWith({ attemptCount: 1 });
+    expect(onReset).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention, { FRAME_MESSAGE_TYPE } from '../src/index';
+
+describe('Frames', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+  let frame: HTMLIFrameElement;
+
+  const flushMicrotasks = () => Promise.resolve();
+
+  const pressPrintScreenIn = (target: Window) => {
+    const FrameKeyboardEvent = (target as unknown as typeof globalThis).KeyboardEvent;
+    target.document.dispatchEvent(new FrameKeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+  };
+
+  const postFromFrame = (data: unknown, origin: string, source: Window | null = frame.contentWindow) => {
+    window.dispatchEvent(new MessageEvent('message', { data, origin, source }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    mockHandler = jest.fn();
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+
+    frame = document.createElement('iframe');
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should attach detectors inside same-origin frames', () => {
+    document.body.appendChild(frame);
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    pressPrintScreenIn(frame.contentWindow!);
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'keyboard',
+      details: 'Screenshot shortcut detected: windows.printScreen'
+    }));
+  });
+
+  it('should pick up frames added later and let go on destroy', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    document.body.appendChild(frame);
+    await flushMicrotasks();
+
+    const target = frame.contentWindow!;
+    pressPrintScreenIn(target);
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+
+    prevention.destroy();
+    pressPrintScreenIn(target);
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave frames alone when turned off', () => {
+    document.body.appendChild(frame);
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, frames: false });
+
+    pressPrintScreenIn(frame.contentWindow!);
+
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should accept detections posted by child frames from allowed origins', () => {
+    document.body.appendChild(frame);
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      frames: { allowedOrigins: ['https://player.example'] }
+    });
+
+    postFromFrame({ type: FRAME_MESSAGE_TYPE, method: 'keyboard', details: 'PrintScreen in player' }, 'https://player.example');
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'keyboard',
+      details: 'PrintScreen in player (frame https://player.example)'
+    }));
+  });
+
+  it('should ignore messages from other origins, other windows and disabled detectors', () => {
+    document.body.appendChild(frame);
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      detectors: { mobile: false },
+      frames: { allowedOrigins: ['https://player.example'] }
+    });
+
+    postFromFrame({ type: FRAME_MESSAGE_TYPE, method: 'keyboard' }, 'https://evil.example');
+    postFromFrame({ type: FRAME_MESSAGE_TYPE, method: 'keyboard' }, 'https://player.example', window);
+    postFromFrame({ type: FRAME_MESSAGE_TYPE, method: 'mobile' }, 'https://player.example');
+    postFromFrame({ type: 'other', method: 'keyboard' }, 'https://player.example');
+
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+});
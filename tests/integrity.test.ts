@@ -0,0 +1,180 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Tamper protection', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+  let sweeps: Array<() => void>;
+
+  const getOverlay = () =>
+    document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement | null;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  // MutationObserver callbacks are delivered as microtasks
+  const flushMutations = () => Promise.resolve();
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    sweeps = [];
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+    jest.spyOn(window, 'setInterval').mockImplementation((cb) => {
+      sweeps.push(cb as () => void);
+      return 1 as any;
+    });
+
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should re-insert a removed overlay and report tampering', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    getOverlay()!.remove();
+    await flushMutations();
+
+    expect(getOverlay()).toBeTruthy();
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'tamper',
+      details: 'Tampering detected: overlay'
+    }));
+  });
+
+  it('should report everything one sweep restores as a single attempt', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    getOverlay()!.remove();
+    document.querySelector('[data-screenshot-prevention="warning"]')!.remove();
+    await flushMutations();
+
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      details: 'Tampering detected: overlay, warning'
+    }));
+    expect(prevention.getAttemptCount()).toBe(1);
+  });
+
+  it('should move into a replaced body without reporting tampering', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    document.body = document.createElement('body');
+    await flushMutations();
+
+    expect(getOverlay()!.parentNode).toBe(document.body);
+    expect(mockHandler).not.toHaveBeenCalled();
+    expect(prevention.getAttemptCount()).toBe(0);
+  });
+
+  it('should re-insert the injected style element', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    const style = document.head.querySelector('style')!;
+
+    style.remove();
+    await flushMutations();
+
+    expect(style.isConnected).toBe(true);
+  });
+
+  it('should restore the overlay when hidden during a lock', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    pressPrintScreen();
+
+    getOverlay()!.style.display = 'none';
+    await flushMutations();
+
+    expect(getOverlay()!.style.display).toBe('block');
+    expect(mockHandler).toHaveBeenLastCalledWith(expect.objectContaining({ method: 'tamper' }));
+  });
+
+  it('should restore the active class removed during a lock', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    pressPrintScreen();
+
+    document.body.classList.remove('screenshot-prevention-active');
+    await flushMutations();
+
+    expect(document.body.classList.contains('screenshot-prevention-active')).toBe(true);
+  });
+
+  it('should put back the patched getDisplayMedia on the next sweep', () => {
+    const original = navigator.mediaDevices.getDisplayMedia;
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+    const patched = navigator.mediaDevices.getDisplayMedia;
+
+    navigator.mediaDevices.getDisplayMedia = original;
+    sweeps.forEach(sweep => sweep());
+
+    expect(navigator.mediaDevices.getDisplayMedia).toBe(patched);
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      details: 'Tampering detected: getDisplayMedia'
+    }));
+  });
+
+  it('should not flag its own lock and recovery changes', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    pressPrintScreen();
+    await flushMutations();
+    prevention.reset();
+    await flushMutations();
+
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should heal silently at the restore level', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, tamperProtection: 'restore' });
+
+    getOverlay()!.remove();
+    await flushMutations();
+
+    expect(getOverlay()).toBeTruthy();
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should hold a persistent lock at the lock level', async () => {
+    const timeoutSpy = window.setTimeout as unknown as jest.Mock;
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, tamperProtection: 'lock' });
+    timeoutSpy.mockClear();
+
+    getOverlay()!.remove();
+    await flushMutations();
+
+    expect(getOverlay()!.style.display).toBe('block');
+    expect(timeoutSpy).not.toHaveBeenCalled();
+  });
+
+  it('should leave the page alone when turned off', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, tamperProtection: 'off' });
+
+    getOverlay()!.remove();
+    await flushMutations();
+
+    expect(getOverlay()).toBeNull();
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should not treat destroy as tampering', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    prevention.destroy();
+    await flushMutations();
+
+    expect(getOverlay()).toBeNull();
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+});
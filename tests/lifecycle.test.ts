@@ -0,0 +1,123 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Lifecycle', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+  let originalGetDisplayMedia: typeof navigator.mediaDevices.getDisplayMedia;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+
+    originalGetDisplayMedia = navigator.mediaDevices.getDisplayMedia;
+    mockHandler = jest.fn();
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.clearAllMocks();
+  });
+
+  it('should report active once set up', () => {
+    expect(prevention.isActive()).toBe(true);
+  });
+
+  it('should ignore detections while paused', () => {
+    prevention.pause();
+    pressPrintScreen();
+
+    expect(prevention.isActive()).toBe(false);
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should hide an active lock when paused', () => {
+    pressPrintScreen();
+    prevention.pause();
+
+    const overlay = document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+    expect(overlay.style.display).toBe('none');
+    expect(document.body.classList.contains('screenshot-prevention-active')).toBe(false);
+  });
+
+  it('should re-arm detection on resume', () => {
+    prevention.pause();
+    prevention.resume();
+    pressPrintScreen();
+
+    expect(prevention.isActive()).toBe(true);
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restore patched media APIs while paused', () => {
+    expect(navigator.mediaDevices.getDisplayMedia).not.toBe(originalGetDisplayMedia);
+
+    prevention.pause();
+    expect(navigator.mediaDevices.getDisplayMedia).toBe(originalGetDisplayMedia);
+  });
+
+  it('should remove every listener on destroy', () => {
+    const removeSpy = jest.spyOn(document, 'removeEventListener');
+
+    prevention.destroy();
+    pressPrintScreen();
+
+    const removedTypes = removeSpy.mock.calls.map(([type]) => type);
+    expect(removedTypes).toEqual(expect.arrayContaining(['keydown', 'visibilitychange', 'mousemove']));
+    expect(window.visualViewport!.removeEventListener).toHaveBeenCalledWith('resize', expect.any(Function));
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should restore the page on destroy', () => {
+    pressPrintScreen();
+    prevention.destroy();
+
+    expect(navigator.mediaDevices.getDisplayMedia).toBe(originalGetDisplayMedia);
+    expect(navigator.mediaSession.setActionHandler).toHaveBeenLastCalledWith('play', null);
+    expect(document.querySelector('[data-screenshot-prevention]')).toBeNull();
+    expect(document.body.classList.contains('screenshot-prevention-active')).toBe(false);
+    expect(prevention.isActive()).toBe(false);
+  });
+
+  it('should not show protection from a frame left pending at destroy', () => {
+    const frames = new Map<number, FrameRequestCallback>();
+    let nextFrame = 0;
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      frames.set(++nextFrame, cb);
+      return nextFrame;
+    });
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation((id) => {
+      frames.delete(id);
+    });
+    document.body.insertAdjacentHTML('beforeend', '<main id="app"></main>');
+
+    pressPrintScreen();
+    prevention.destroy();
+    frames.forEach(cb => cb(0));
+
+    expect(document.body.classList.contains('screenshot-prevention-active')).toBe(false);
+    expect(document.getElementById('app')!.hasAttribute('inert')).toBe(false);
+  });
+
+  it('should allow a fresh instance after destroy', () => {
+    prevention.destroy();
+    const next = new EnhancedScreenshotPrevention();
+
+    expect(next).not.toBe(prevention);
+    next.destroy();
+  });
+});
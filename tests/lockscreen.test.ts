@@ -0,0 +1,152 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Lock screen', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let timers: Array<() => void>;
+  let intervals: Array<() => void>;
+
+  const getWarning = () =>
+    document.querySelector('[data-screenshot-prevention="warning"]') as HTMLElement;
+  const getOverlay = () =>
+    document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+  const getPart = (part: string) =>
+    getWarning().querySelector(`[data-screenshot-prevention-part="${part}"]`) as HTMLElement | null;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '<main></main>';
+    timers = [];
+    intervals = [];
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb) => {
+      timers.push(cb as () => void);
+      return timers.length as any;
+    });
+
+    jest.spyOn(window, 'setInterval').mockImplementation((cb) => {
+      intervals.push(cb as () => void);
+      return intervals.length as any;
+    });
+
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should theme the UI through CSS custom properties', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      customStyles: { warningBackground: '#222222' }
+    });
+
+    const css = document.head.querySelector('style')!.textContent!;
+    expect(css).toContain('var(--screenshot-prevention-warning-background, #ff4444)');
+    expect(css).toContain('var(--screenshot-prevention-button-color, #ff4444)');
+
+    expect(getWarning().style.getPropertyValue('--screenshot-prevention-warning-background')).toBe('#222222');
+    expect(getWarning().style.getPropertyValue('--screenshot-prevention-warning-color')).toBe('');
+
+    prevention.update({ customStyles: { warningBackground: '#ff4444', overlayBackground: 'black' } });
+
+    expect(getWarning().style.getPropertyValue('--screenshot-prevention-warning-background')).toBe('');
+    expect(getOverlay().style.getPropertyValue('--screenshot-prevention-overlay-background')).toBe('black');
+  });
+
+  it('should hand the warning to a custom renderer', () => {
+    const renderWarning = jest.fn((details: any, container: HTMLElement) => {
+      container.innerHTML = `<h2>Blocked</h2><a href="/help">${details.method}</a>`;
+    });
+    prevention = new EnhancedScreenshotPrevention({ renderWarning });
+
+    pressPrintScreen();
+
+    expect(renderWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'keyboard' }),
+      getWarning()
+    );
+    expect(getWarning().querySelector('a')!.textContent).toBe('keyboard');
+    expect(getWarning().style.pointerEvents).toBe('auto');
+  });
+
+  it('should count down to the end of the lock', () => {
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    prevention = new EnhancedScreenshotPrevention({
+      recoveryDelay: 3000,
+      lockScreen: { countdown: true, countdownLabel: '{seconds} seconds left' }
+    });
+
+    pressPrintScreen();
+
+    expect(getPart('message')!.textContent).toBe('Screenshot and screen recording are not allowed.');
+    expect(getPart('countdown')!.textContent).toBe('3 seconds left');
+    expect(getPart('countdown')!.getAttribute('aria-hidden')).toBe('true');
+
+    now += 1000;
+    intervals[intervals.length - 1]();
+
+    expect(getPart('countdown')!.textContent).toBe('2 seconds left');
+  });
+
+  it('should end the lock early when acknowledged', () => {
+    const onLockEnd = jest.fn();
+    prevention = new EnhancedScreenshotPrevention({
+      lockScreen: { acknowledgeLabel: 'I understand' }
+    });
+    prevention.on('lockEnd', onLockEnd);
+
+    pressPrintScreen();
+
+    const button = getPart('acknowledge') as HTMLButtonElement;
+    expect(button.textContent).toBe('I understand');
+    expect(document.activeElement).toBe(button);
+    expect(getWarning().style.pointerEvents).toBe('auto');
+
+    button.click();
+
+    expect(onLockEnd).toHaveBeenCalledTimes(1);
+    expect(getWarning().style.display).toBe('none');
+  });
+
+  it('should not offer to acknowledge a persistent lock', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      escalation: { rules: [{ attempts: 1, persistentLock: true }] },
+      lockScreen: { acknowledgeLabel: 'I understand', countdown: true }
+    });
+
+    pressPrintScreen();
+    prevention.acknowledge();
+
+    expect(getPart('acknowledge')).toBeNull();
+    expect(getPart('countdown')).toBeNull();
+    expect(getWarning().style.display).toBe('block');
+  });
+
+  it('should link to a contact and honour pointerEvents', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      lockScreen: { contact: { href: 'mailto:security@example.com', label: 'Contact security' } }
+    });
+
+    pressPrintScreen();
+
+    const link = getPart('contact')!.querySelector('a')!;
+    expect(link.getAttribute('href')).toBe('mailto:security@example.com');
+    expect(getWarning().style.pointerEvents).toBe('auto');
+
+    prevention.update({ lockScreen: { contact: null, pointerEvents: 'none' } });
+
+    expect(getPart('contact')).toBeNull();
+    expect(getWarning().style.pointerEvents).toBe('none');
+  });
+});
@@ -0,0 +1,118 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Media protection', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let timers: Array<() => void>;
+  let video: HTMLVideoElement;
+  let canvas: HTMLCanvasElement;
+  let playing: boolean;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+  };
+  const endLock = () => timers.forEach(cb => cb());
+
+  beforeEach(() => {
+    document.body.innerHTML = '<video></video><canvas width="300"></canvas>';
+    video = document.querySelector('video')!;
+    canvas = document.querySelector('canvas')!;
+    timers = [];
+    playing = true;
+
+    Object.defineProperty(video, 'paused', { get: () => !playing, configurable: true });
+    video.pause = jest.fn(() => { playing = false; });
+    video.play = jest.fn(() => {
+      playing = true;
+      return Promise.resolve();
+    });
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb) => {
+      timers.push(cb as () => void);
+      return timers.length as any;
+    });
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    delete (document as any).pictureInPictureElement;
+    delete (document as any).exitPictureInPicture;
+    jest.restoreAllMocks();
+  });
+
+  it('should leave media alone by default', () => {
+    prevention = new EnhancedScreenshotPrevention();
+
+    pressPrintScreen();
+
+    expect(video.pause).not.toHaveBeenCalled();
+    expect(canvas.style.visibility).toBe('');
+  });
+
+  it('should pause playing media and hide canvases during a lock', () => {
+    canvas.style.visibility = 'visible';
+    prevention = new EnhancedScreenshotPrevention({ protectMedia: true });
+
+    pressPrintScreen();
+
+    expect(video.pause).toHaveBeenCalledTimes(1);
+    expect(video.style.visibility).toBe('');
+    expect(canvas.style.getPropertyValue('visibility')).toBe('hidden');
+    expect(canvas.style.getPropertyPriority('visibility')).toBe('important');
+
+    endLock();
+
+    expect(video.play).toHaveBeenCalledTimes(1);
+    expect(canvas.style.visibility).toBe('visible');
+  });
+
+  it('should not resume media that was already paused', () => {
+    playing = false;
+    prevention = new EnhancedScreenshotPrevention({ protectMedia: true });
+
+    pressPrintScreen();
+    endLock();
+
+    expect(video.pause).not.toHaveBeenCalled();
+    expect(video.play).not.toHaveBeenCalled();
+  });
+
+  it('should blank video and clear canvases when configured', () => {
+    prevention = new EnhancedScreenshotPrevention({ protectMedia: { playback: 'blank', canvas: 'clear' } });
+    const setWidth = jest.spyOn(canvas, 'width', 'set');
+
+    pressPrintScreen();
+
+    expect(video.style.visibility).toBe('hidden');
+    expect(setWidth).toHaveBeenCalledWith(300);
+    expect(canvas.style.visibility).toBe('');
+  });
+
+  it('should leave Picture-in-Picture during a lock', () => {
+    const exitPictureInPicture = jest.fn(() => Promise.resolve());
+    Object.assign(document, { pictureInPictureElement: video, exitPictureInPicture });
+    prevention = new EnhancedScreenshotPrevention({ protectMedia: true });
+
+    pressPrintScreen();
+
+    expect(exitPictureInPicture).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse Picture-in-Picture in block mode', () => {
+    const exitPictureInPicture = jest.fn(() => Promise.resolve());
+    Object.assign(document, { pictureInPictureElement: video, exitPictureInPicture });
+    prevention = new EnhancedScreenshotPrevention({ protectMedia: { pictureInPicture: 'block' } });
+
+    expect(video.disablePictureInPicture).toBe(true);
+
+    video.dispatchEvent(new Event('enterpictureinpicture', { bubbles: true }));
+    expect(exitPictureInPicture).toHaveBeenCalledTimes(1);
+
+    prevention.update({ protectMedia: false });
+    expect(video.disablePictureInPicture).toBe(false);
+  });
+});
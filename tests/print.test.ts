@@ -0,0 +1,112 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Print policy', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+
+  const getPrintCss = () => {
+    const css = document.head.querySelector('style')!.textContent!;
+    return css.slice(css.indexOf('@media print'));
+  };
+
+  const pressCtrlP = () => {
+    const event = new KeyboardEvent('keydown', {
+      key: 'p',
+      code: 'KeyP',
+      ctrlKey: true,
+      bubbles: true,
+      cancelable: true
+    });
+    document.dispatchEvent(event);
+    return event;
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should blank the page and cancel Ctrl+P by default', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    expect(getPrintCss()).toContain('body { display: none !important; }');
+    expect(pressCtrlP().defaultPrevented).toBe(true);
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'print',
+      details: 'Print shortcut blocked'
+    }));
+  });
+
+  it('should report beforeprint as a print attempt', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    window.dispatchEvent(new Event('beforeprint'));
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'print',
+      details: 'Print started'
+    }));
+  });
+
+  it('should count a shortcut followed by beforeprint once', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, printPolicy: 'watermark' });
+
+    expect(pressCtrlP().defaultPrevented).toBe(false);
+    window.dispatchEvent(new Event('beforeprint'));
+
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should print the watermark and legal notice in watermark mode', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      printPolicy: 'watermark',
+      printNotice: 'Property of "Acme"\nDo not distribute'
+    });
+
+    const css = getPrintCss();
+    expect(css).not.toContain('body { display: none');
+    expect(css).toContain('[data-screenshot-prevention="watermark"] {');
+    expect(css).toContain('content: "Property of \\"Acme\\"\\A Do not distribute"');
+  });
+
+  it('should hide only marked elements in redact mode', () => {
+    prevention = new EnhancedScreenshotPrevention({ printPolicy: 'redact' });
+
+    const css = getPrintCss();
+    expect(css).not.toContain('body { display: none');
+    expect(css).toContain('[data-screenshot-prevention-redact] { visibility: hidden !important; }');
+  });
+
+  it('should neither restrict nor report printing when allowed', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, printPolicy: 'allow' });
+
+    window.dispatchEvent(new Event('beforeprint'));
+
+    expect(getPrintCss()).not.toContain('body { display: none');
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should rebuild print styles on update', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    prevention.update({ printPolicy: 'redact' });
+    expect(getPrintCss()).toContain('[data-screenshot-prevention-redact]');
+
+    prevention.update({ printPolicy: 'allow' });
+    expect(prevention.isDetectorEnabled('print')).toBe(false);
+  });
+});
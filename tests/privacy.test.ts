@@ -0,0 +1,158 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Privacy screen', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+  let timers: Array<{ cb: () => void; delay?: number }>;
+  let hasFocus: boolean;
+
+  const getOverlay = () =>
+    document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+  const getWarning = () =>
+    document.querySelector('[data-screenshot-prevention="warning"]') as HTMLElement;
+
+  const runIdleTimers = () => {
+    timers.filter(({ delay }) => delay === 30000).forEach(({ cb }) => cb());
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    timers = [];
+    hasFocus = true;
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb, delay) => {
+      timers.push({ cb: cb as () => void, delay });
+      return timers.length as any;
+    });
+
+    jest.spyOn(document, 'hasFocus').mockImplementation(() => hasFocus);
+
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should mask on window blur and unmask on focus without counting attempts', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, privacyScreen: true });
+
+    window.dispatchEvent(new Event('blur'));
+    expect(getOverlay().style.display).toBe('block');
+    expect(getWarning().style.display).toBe('none');
+
+    window.dispatchEvent(new Event('focus'));
+    expect(getOverlay().style.display).toBe('none');
+
+    expect(mockHandler).not.toHaveBeenCalled();
+    expect(prevention.getAttemptCount()).toBe(0);
+  });
+
+  it('should mask on pagehide', () => {
+    prevention = new EnhancedScreenshotPrevention({ privacyScreen: true });
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(getOverlay().style.display).toBe('block');
+  });
+
+  it('should mask as soon as the document is hidden', () => {
+    // A quick hidden-visible flip would otherwise also lock via that detector
+    prevention = new EnhancedScreenshotPrevention({
+      privacyScreen: true,
+      detectors: { visibilityChange: false }
+    });
+
+    Object.defineProperty(document, 'hidden', { value: true, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(getOverlay().style.display).toBe('block');
+
+    delete (document as any).hidden;
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(getOverlay().style.display).toBe('none');
+  });
+
+  it('should not lift a blur mask on mousemove over an unfocused window', () => {
+    prevention = new EnhancedScreenshotPrevention({ privacyScreen: true });
+
+    hasFocus = false;
+    window.dispatchEvent(new Event('blur'));
+    document.dispatchEvent(new MouseEvent('mousemove'));
+
+    expect(getOverlay().style.display).toBe('block');
+  });
+
+  it('should not mask when focus moves into an iframe on the page', () => {
+    prevention = new EnhancedScreenshotPrevention({ privacyScreen: true });
+    document.body.insertAdjacentHTML('beforeend', '<iframe tabindex="0"></iframe>');
+
+    document.querySelector('iframe')!.focus();
+    window.dispatchEvent(new Event('blur'));
+
+    expect(getOverlay().style.display).toBe('none');
+  });
+
+  it('should mask after the idle timeout and unmask on interaction', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      privacyScreen: { maskOnBlur: false, idleTimeout: 30000 }
+    });
+
+    runIdleTimers();
+    expect(getOverlay().style.display).toBe('block');
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+    expect(getOverlay().style.display).toBe('none');
+  });
+
+  it('should ignore focus loss when maskOnBlur is off', () => {
+    prevention = new EnhancedScreenshotPrevention({ privacyScreen: { maskOnBlur: false } });
+
+    window.dispatchEvent(new Event('blur'));
+
+    expect(getOverlay().style.display).toBe('none');
+  });
+
+  it('should keep a detection lock when the privacy mask lifts', () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, privacyScreen: true });
+
+    window.dispatchEvent(new Event('blur'));
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+    window.dispatchEvent(new Event('focus'));
+
+    expect(getOverlay().style.display).toBe('block');
+    expect(getWarning().style.display).toBe('block');
+  });
+
+  it('should emit privacyChange events', () => {
+    const onChange = jest.fn();
+    prevention = new EnhancedScreenshotPrevention({ privacyScreen: true });
+    prevention.on('privacyChange', onChange);
+
+    window.dispatchEvent(new Event('blur'));
+    window.dispatchEvent(new Event('focus'));
+
+    expect(onChange).toHaveBeenNthCalledWith(1, { masked: true, reason: 'blur' });
+    expect(onChange).toHaveBeenNthCalledWith(2, { masked: false, reason: null });
+  });
+
+  it('should be off by default and switchable through update', () => {
+    prevention = new EnhancedScreenshotPrevention();
+
+    window.dispatchEvent(new Event('blur'));
+    expect(getOverlay().style.display).toBe('none');
+
+    prevention.update({ privacyScreen: true });
+    window.dispatchEvent(new Event('blur'));
+    expect(getOverlay().style.display).toBe('block');
+
+    prevention.update({ privacyScreen: false });
+    expect(getOverlay().style.display).toBe('none');
+  });
+});
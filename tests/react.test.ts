@@ -0,0 +1,74 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { act, createElement } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { createScreenshotPrevention } from '../src/index';
+import { Protected, useScreenshotPrevention } from '../src/react';
+import { ScreenshotPreventionOptions } from '../src/types';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('React bindings', () => {
+  let container: HTMLElement;
+  let root: Root;
+
+  const getMasks = () => document.querySelectorAll('[data-screenshot-prevention="zone"]');
+  const getOverlay = () => document.querySelector('[data-screenshot-prevention="overlay"]');
+  const render = (element: Parameters<Root['render']>[0]) => act(() => root.render(element));
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="root"></div>';
+    container = document.getElementById('root')!;
+    root = createRoot(container);
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    jest.restoreAllMocks();
+  });
+
+  it('should protect each <Protected> and share one instance between them', () => {
+    render(createElement('main', null,
+      createElement(Protected, { key: 'a', className: 'card' }, 'A'),
+      createElement(Protected, { key: 'b', as: 'section' }, 'B')
+    ));
+
+    expect(getMasks()).toHaveLength(2);
+    expect(container.querySelector('div.card')!.textContent).toBe('A');
+    expect(container.querySelector('section')!.textContent).toBe('B');
+
+    render(createElement('main', null, createElement(Protected, { key: 'b', as: 'section' }, 'B')));
+
+    expect(getMasks()).toHaveLength(1);
+    expect(getOverlay()).not.toBeNull();
+
+    render(createElement('main'));
+
+    expect(getOverlay()).toBeNull();
+  });
+
+  it('should only update the instance when the options change', () => {
+    let hookResult: ReturnType<typeof useScreenshotPrevention> = null;
+    const Consumer = ({ options }: { options: Partial<ScreenshotPreventionOptions> }) => {
+      hookResult = useScreenshotPrevention(options);
+      return null;
+    };
+
+    render(createElement(Consumer, { options: { recoveryDelay: 3000, shortcuts: { remove: ['windows.gameBar'] } } }));
+
+    const instance = createScreenshotPrevention();
+    expect(hookResult).toBe(instance);
+    const update = jest.spyOn(instance, 'update');
+
+    render(createElement(Consumer, { options: { recoveryDelay: 3000, shortcuts: { remove: ['windows.gameBar'] } } }));
+    expect(update).not.toHaveBeenCalled();
+
+    render(createElement(Consumer, { options: { recoveryDelay: 5000, shortcuts: { remove: ['windows.gameBar'] } } }));
+    expect(update).toHaveBeenCalledWith({ recoveryDelay: 5000 });
+  });
+});
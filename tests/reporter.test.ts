@@ -0,0 +1,229 @@
+import { jest, describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import EnhancedScreenshotPrevention, { AttemptReport } from '../src/index';
+
+// jsdom has no fetch; route requests through Node's http module so they hit
+// the real stub endpoint below
+const nodeFetch = (url: string, init: RequestInit) => new Promise((resolve, reject) => {
+  const request = http.request(url, {
+    method: init.method,
+    headers: init.headers as http.OutgoingHttpHeaders
+  }, (response) => {
+    response.resume();
+    response.on('end', () => resolve({
+      ok: response.statusCode! < 300,
+      status: response.statusCode
+    }));
+  });
+  request.on('error', reject);
+  request.end(init.body);
+});
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('Attempt reporting', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let received: Array<{ reports: AttemptReport[] }>;
+  let statuses: number[];
+  let prevention: EnhancedScreenshotPrevention;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  const PREFIX = 'screenshot-prevention:reports:';
+  const storedQueues = () => Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index)!)
+    .filter(key => key.startsWith(PREFIX))
+    .map(key => JSON.parse(localStorage.getItem(key)!));
+  const storeQueue = (page: string, updatedAt: number, sessionId: string) => {
+    localStorage.setItem(`${PREFIX}${page}`, JSON.stringify({
+      updatedAt,
+      reports: [{ count: 1, method: 'keyboard', timestamp: 1, sessionId }]
+    }));
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        const status = statuses.shift() ?? 200;
+        if (status < 300) {
+          received.push(JSON.parse(body));
+        }
+        response.writeHead(status);
+        response.end();
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/attempts`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    localStorage.clear();
+    received = [];
+    statuses = [];
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    (window as any).fetch = jest.fn(nodeFetch);
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    delete (window as any).fetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should post enriched attempts once a batch is full', async () => {
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      reporting: { endpoint, batchSize: 2, flushInterval: 60000 }
+    });
+
+    document.dispatchEvent(new MouseEvent('mousemove', { clientX: 12, clientY: 34 }));
+    pressPrintScreen();
+    expect(window.fetch).not.toHaveBeenCalled();
+
+    pressPrintScreen();
+    await waitFor(() => received.length === 1);
+
+    const [first, second] = received[0].reports;
+    expect(second.count).toBe(2);
+    expect(first).toEqual(expect.objectContaining({
+      method: 'keyboard',
+      count: 1,
+      url: window.location.href,
+      userAgent: navigator.userAgent,
+      mousePosition: { x: 12, y: 34 }
+    }));
+    expect(first.sessionId).toBe(second.sessionId);
+    await waitFor(() => storedQueues().length === 0);
+  });
+
+  it('should retry failed deliveries with backoff', async () => {
+    statuses = [500, 503];
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      reporting: { endpoint, batchSize: 1, flushInterval: 60000, retryDelay: 5 }
+    });
+
+    pressPrintScreen();
+    await waitFor(() => received.length === 1);
+
+    expect(window.fetch).toHaveBeenCalledTimes(3);
+    expect(received[0].reports[0].count).toBe(1);
+  });
+
+  it('should hold reports in localStorage while offline', async () => {
+    Object.defineProperty(navigator, 'onLine', { value: false, configurable: true });
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      reporting: { endpoint, batchSize: 1, flushInterval: 60000 }
+    });
+
+    pressPrintScreen();
+
+    const stored = storedQueues();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].reports).toHaveLength(1);
+    expect(window.fetch).not.toHaveBeenCalled();
+
+    delete (navigator as any).onLine;
+    window.dispatchEvent(new Event('online'));
+    await waitFor(() => received.length === 1);
+  });
+
+  it('should send reports persisted by a previous page view', async () => {
+    storeQueue('earlier-page', 0, 'earlier');
+
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      reporting: { endpoint, flushInterval: 60000 }
+    });
+
+    await waitFor(() => received.length === 1);
+    expect(received[0].reports[0].sessionId).toBe('earlier');
+  });
+
+  it('should flush the queue with sendBeacon on pagehide', () => {
+    const sendBeacon = jest.fn(() => true);
+    (navigator as any).sendBeacon = sendBeacon;
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      reporting: { endpoint, batchSize: 10, flushInterval: 60000 }
+    });
+
+    pressPrintScreen();
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendBeacon).toHaveBeenCalledWith(endpoint, expect.any(String));
+    const payload = JSON.parse((sendBeacon.mock.calls[0] as unknown[])[1] as string);
+    expect(payload.reports).toHaveLength(1);
+    expect(storedQueues()).toHaveLength(0);
+    delete (navigator as any).sendBeacon;
+  });
+
+  it('should leave the queue of a page that is still open alone', async () => {
+    storeQueue('open-page', Date.now(), 'open');
+    storeQueue('closed-page', 0, 'closed');
+
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      reporting: { endpoint, flushInterval: 60000 }
+    });
+
+    await waitFor(() => received.length === 1);
+    expect(received[0].reports.map(report => report.sessionId)).toEqual(['closed']);
+    expect(localStorage.getItem(`${PREFIX}open-page`)).not.toBeNull();
+  });
+
+  it('should beacon only what no fetch is sending and keep later reports', async () => {
+    let resolveFetch: (response: unknown) => void = () => {};
+    (window as any).fetch = jest.fn(() => new Promise(resolve => { resolveFetch = resolve; }));
+    const sendBeacon = jest.fn(() => true);
+    (navigator as any).sendBeacon = sendBeacon;
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: jest.fn(),
+      reporting: { endpoint, batchSize: 1, flushInterval: 60000 }
+    });
+
+    pressPrintScreen();
+    pressPrintScreen();
+    window.dispatchEvent(new Event('pagehide'));
+
+    const payload = JSON.parse((sendBeacon.mock.calls[0] as unknown[])[1] as string);
+    expect(payload.reports.map((report: AttemptReport) => report.count)).toEqual([2]);
+    expect(storedQueues()[0]).toEqual(expect.objectContaining({ updatedAt: 0 }));
+
+    // Raised after a back/forward cache restore, before the first fetch is done
+    pressPrintScreen();
+    resolveFetch({ ok: true, status: 200 });
+    await waitFor(() => (window.fetch as jest.Mock).mock.calls.length === 2);
+
+    const body = JSON.parse(((window.fetch as jest.Mock).mock.calls[1] as [string, RequestInit])[1].body as string);
+    expect(body.reports.map((report: AttemptReport) => report.count)).toEqual([3]);
+    expect(storedQueues()[0].reports.map((report: AttemptReport) => report.count)).toEqual([3]);
+    delete (navigator as any).sendBeacon;
+  });
+});
@@ -0,0 +1,186 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention, { parseRoutePolicies, RoutingOptions } from '../src/index';
+
+describe('Route policies', () => {
+  let prevention: EnhancedScreenshotPrevention;
+
+  const getWarning = () =>
+    document.querySelector('[data-screenshot-prevention="warning"]') as HTMLElement;
+
+  const routes: RoutingOptions = {
+    policies: [
+      { match: '/records/*', options: { warningMessage: 'Records are confidential' } },
+      { match: '/help', protect: false }
+    ]
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    history.replaceState(null, '', '/');
+    jest.restoreAllMocks();
+    delete (window as any).fetch;
+  });
+
+  it('should apply the policy matching the initial URL', () => {
+    history.replaceState(null, '', '/records/42');
+    prevention = new EnhancedScreenshotPrevention({ warningMessage: 'Base', routes });
+
+    expect(getWarning().textContent).toBe('Records are confidential');
+  });
+
+  it('should follow pushState and restore the base options on leaving', () => {
+    prevention = new EnhancedScreenshotPrevention({ warningMessage: 'Base', routes });
+
+    history.pushState(null, '', '/records/42');
+    expect(getWarning().textContent).toBe('Records are confidential');
+
+    history.pushState(null, '', '/dashboard');
+    expect(getWarning().textContent).toBe('Base');
+  });
+
+  it('should pause protection on unprotected routes', () => {
+    prevention = new EnhancedScreenshotPrevention({ routes });
+
+    history.pushState(null, '', '/help');
+    expect(prevention.isActive()).toBe(false);
+
+    history.replaceState(null, '', '/records/1');
+    expect(prevention.isActive()).toBe(true);
+  });
+
+  it('should keep a manual pause when leaving an unprotected route', () => {
+    prevention = new EnhancedScreenshotPrevention({ routes });
+
+    history.pushState(null, '', '/help');
+    prevention.pause();
+    history.pushState(null, '', '/dashboard');
+
+    expect(prevention.isActive()).toBe(false);
+  });
+
+  it('should react to popstate and hashchange in hash mode', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      warningMessage: 'Base',
+      routes: { ...routes, mode: 'hash' }
+    });
+
+    window.location.hash = '#/records/7';
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+    expect(getWarning().textContent).toBe('Records are confidential');
+
+    window.location.hash = '';
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    expect(getWarning().textContent).toBe('Base');
+  });
+
+  it('should let an explicit update outlast the route', () => {
+    prevention = new EnhancedScreenshotPrevention({ warningMessage: 'Base', routes });
+
+    history.pushState(null, '', '/records/42');
+    prevention.update({ warningMessage: 'Chosen' });
+    history.pushState(null, '', '/dashboard');
+
+    expect(getWarning().textContent).toBe('Chosen');
+  });
+
+  it('should restore the history methods on destroy', () => {
+    const { pushState } = history;
+    prevention = new EnhancedScreenshotPrevention({ routes });
+
+    expect(history.pushState).not.toBe(pushState);
+    prevention.destroy();
+    expect(history.pushState).toBe(pushState);
+  });
+
+  it('should list every invalid field of a policy document', () => {
+    expect(() => parseRoutePolicies({
+      policies: [
+        { match: '/a', options: { recoveryDelay: 'soon', printPolicy: 'shred' } },
+        { protect: 'no', options: { onAttempt: 'alert' } }
+      ]
+    })).toThrow([
+      'Invalid route policy document:',
+      "- policies[0].options.recoveryDelay must be a non-negative number",
+      "- policies[0].options.printPolicy must be one of 'block', 'watermark', 'redact', 'allow'",
+      '- policies[1].match must be a non-empty string',
+      '- policies[1].protect must be a boolean',
+      '- policies[1].options.onAttempt is not a supported option'
+    ].join('\n'));
+
+    expect(() => parseRoutePolicies([])).toThrow('expected an object with a "policies" array');
+  });
+
+  it('should check the fields of nested options', () => {
+    expect(() => parseRoutePolicies({
+      policies: [{
+        match: '/*',
+        options: {
+          watermark: {},
+          preventInspect: { strategies: ['nope'] },
+          detectors: { keyboard: 'yes' },
+          shortcuts: { add: [{ key: 'F13' }], remove: 'windows.printScreen' },
+          lockScreen: { contact: { href: '/help', title: 'Help' } }
+        }
+      }]
+    })).toThrow([
+      'Invalid route policy document:',
+      '- policies[0].options.watermark.text is required',
+      "- policies[0].options.preventInspect.strategies[0] must be one of 'size', 'console', 'debugger'",
+      '- policies[0].options.detectors.keyboard must be a boolean',
+      '- policies[0].options.shortcuts.add[0].id is required',
+      '- policies[0].options.shortcuts.remove must be an array',
+      '- policies[0].options.lockScreen.contact.label is required',
+      '- policies[0].options.lockScreen.contact.title is not a supported option'
+    ].join('\n'));
+
+    expect(parseRoutePolicies({
+      policies: [{ match: '/*', options: { watermark: { text: ['Jane', 'jane@example.com'] }, preventInspect: true } }]
+    })).toHaveLength(1);
+  });
+
+  it('should log a policy that fails to apply instead of breaking navigation', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    prevention = new EnhancedScreenshotPrevention({
+      routes: { policies: [{ match: '/bad', options: { watermark: {} as any } }] }
+    });
+
+    expect(() => history.pushState(null, '', '/bad')).not.toThrow();
+    expect(error).toHaveBeenCalledWith('[EnhancedScreenshotPrevention] Could not apply route policy', expect.any(TypeError));
+  });
+
+  it('should load a remote policy document', async () => {
+    (window as any).fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ policies: [{ match: '/admin*', options: { warningMessage: 'Admin' } }] })
+    }));
+    history.replaceState(null, '', '/admin/users');
+    prevention = new EnhancedScreenshotPrevention({ warningMessage: 'Base' });
+
+    await prevention.loadRoutePolicies('/policies.json');
+
+    expect(window.fetch).toHaveBeenCalledWith('/policies.json', expect.anything());
+    expect(getWarning().textContent).toBe('Admin');
+  });
+
+  it('should reject an invalid remote document', async () => {
+    (window as any).fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ policies: [{ match: 42 }] })
+    }));
+    prevention = new EnhancedScreenshotPrevention();
+
+    await expect(prevention.loadRoutePolicies('/policies.json'))
+      .rejects.toThrow('policies[0].match must be a non-empty string');
+  });
+});
@@ -0,0 +1,139 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Screen share policy', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let originalGetDisplayMedia: typeof navigator.mediaDevices.getDisplayMedia;
+  let getDisplayMedia: jest.Mock<(options?: DisplayMediaStreamOptions) => Promise<MediaStream>>;
+  let intervals: Array<() => void>;
+  let mockHandler: jest.Mock;
+
+  const createTrack = () => {
+    const track = new EventTarget() as EventTarget & { readyState: string };
+    track.readyState = 'live';
+    return track;
+  };
+
+  const endTrack = (track: EventTarget & { readyState: string }, dispatch = true) => {
+    track.readyState = 'ended';
+    if (dispatch) {
+      track.dispatchEvent(new Event('ended'));
+    }
+  };
+
+  const getOverlay = () =>
+    document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+  const getWarning = () =>
+    document.querySelector('[data-screenshot-prevention="warning"]') as HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    intervals = [];
+    mockHandler = jest.fn();
+
+    originalGetDisplayMedia = navigator.mediaDevices.getDisplayMedia;
+    getDisplayMedia = jest.fn();
+    navigator.mediaDevices.getDisplayMedia = getDisplayMedia;
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+    jest.spyOn(window, 'setInterval').mockImplementation((cb) => {
+      intervals.push(cb as () => void);
+      return intervals.length as any;
+    });
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    navigator.mediaDevices.getDisplayMedia = originalGetDisplayMedia;
+    jest.restoreAllMocks();
+  });
+
+  it('should refuse every share without a policy', async () => {
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    await expect(navigator.mediaDevices.getDisplayMedia()).rejects.toThrow('Screen capture is not allowed');
+
+    expect(getDisplayMedia).not.toHaveBeenCalled();
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'screenCapture',
+      details: 'Screen capture attempted'
+    }));
+  });
+
+  it('should let an approved share through and mask until its tracks end', async () => {
+    const video = createTrack();
+    const audio = createTrack();
+    const stream = { getTracks: () => [video, audio] } as unknown as MediaStream;
+    getDisplayMedia.mockResolvedValue(stream);
+    const policy = jest.fn(async () => true);
+
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, onScreenShareRequest: policy });
+
+    await expect(navigator.mediaDevices.getDisplayMedia({ video: true })).resolves.toBe(stream);
+
+    expect(policy).toHaveBeenCalledWith(expect.objectContaining({ constraints: { video: true } }));
+    expect(getDisplayMedia).toHaveBeenCalledWith({ video: true });
+    expect(getOverlay().style.display).toBe('block');
+    expect(getWarning().style.display).toBe('none');
+    expect(prevention.getAttemptCount()).toBe(0);
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'screenCapture',
+      details: 'Screen share started',
+      allowed: true
+    }));
+
+    endTrack(video);
+    expect(getOverlay().style.display).toBe('block');
+
+    endTrack(audio);
+    expect(getOverlay().style.display).toBe('none');
+    expect(mockHandler).toHaveBeenLastCalledWith(expect.objectContaining({
+      details: 'Screen share ended',
+      allowed: true
+    }));
+  });
+
+  it('should notice tracks the page stopped itself', async () => {
+    const track = createTrack();
+    getDisplayMedia.mockResolvedValue({ getTracks: () => [track] } as unknown as MediaStream);
+    prevention = new EnhancedScreenshotPrevention({ onScreenShareRequest: () => true });
+
+    await navigator.mediaDevices.getDisplayMedia();
+    endTrack(track, false);
+    intervals[intervals.length - 1]();
+
+    expect(getOverlay().style.display).toBe('none');
+  });
+
+  it('should refuse and report a share the policy denies or fails on', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    let approve: () => boolean = () => false;
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler, onScreenShareRequest: () => approve() });
+
+    await expect(navigator.mediaDevices.getDisplayMedia()).rejects.toThrow('Screen capture is not allowed');
+
+    approve = () => { throw new Error('policy service down'); };
+    await expect(navigator.mediaDevices.getDisplayMedia()).rejects.toThrow('Screen capture is not allowed');
+
+    expect(getDisplayMedia).not.toHaveBeenCalled();
+    expect(prevention.getAttemptCount()).toBe(2);
+    expect(console.error).toHaveBeenCalledWith(
+      '[EnhancedScreenshotPrevention] Screen share policy failed:',
+      expect.any(Error)
+    );
+  });
+
+  it('should lift the mask when a cancelled picker rejects', async () => {
+    getDisplayMedia.mockRejectedValue(new Error('Permission denied'));
+    prevention = new EnhancedScreenshotPrevention({ onScreenShareRequest: () => true });
+
+    await expect(navigator.mediaDevices.getDisplayMedia()).rejects.toThrow('Permission denied');
+
+    expect(getOverlay().style.display).toBe('none');
+  });
+});
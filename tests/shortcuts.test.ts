@@ -0,0 +1,146 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+import { detectPlatform, resolveShortcutRules } from '../src/shortcuts';
+
+describe('Shortcut rules', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let mockHandler: jest.Mock;
+
+  const press = (init: KeyboardEventInit) => {
+    const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+    document.dispatchEvent(event);
+    return event;
+  };
+
+  const mockPlatform = (platform: string, userAgent = 'Mozilla/5.0') => {
+    jest.spyOn(navigator, 'platform', 'get').mockReturnValue(platform);
+    jest.spyOn(navigator, 'userAgent', 'get').mockReturnValue(userAgent);
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    prevention?.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should detect the platform from the navigator', () => {
+    mockPlatform('Win32');
+    expect(detectPlatform()).toBe('windows');
+
+    mockPlatform('MacIntel');
+    expect(detectPlatform()).toBe('macos');
+
+    mockPlatform('Linux x86_64');
+    expect(detectPlatform()).toBe('linux');
+
+    mockPlatform('Linux x86_64', 'Mozilla/5.0 (X11; CrOS x86_64 14541.0.0)');
+    expect(detectPlatform()).toBe('chromeos');
+  });
+
+  it('should load every profile when the platform is unknown', () => {
+    mockPlatform('');
+
+    const ids = resolveShortcutRules().map(rule => rule.id);
+
+    expect(ids).toContain('windows.snippingTool');
+    expect(ids).toContain('macos.fullScreen');
+    expect(ids).toContain('linux.area');
+    expect(ids).toContain('chromeos.partial');
+  });
+
+  it('should detect Win+Shift+S with a lowercase key', () => {
+    mockPlatform('Win32');
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    press({ key: 's', code: 'KeyS', metaKey: true, shiftKey: true });
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'keyboard',
+      details: 'Screenshot shortcut detected: windows.snippingTool'
+    }));
+  });
+
+  it('should name the specific Linux PrintScreen variant', () => {
+    mockPlatform('Linux x86_64');
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    press({ key: 'PrintScreen', code: 'PrintScreen', shiftKey: true });
+    press({ key: 'PrintScreen', code: 'PrintScreen', ctrlKey: true });
+    press({ key: 'PrintScreen', code: 'PrintScreen', altKey: true });
+
+    expect(mockHandler.mock.calls.map(([attempt]) => (attempt as any).details)).toEqual([
+      'Screenshot shortcut detected: linux.area',
+      'Screenshot shortcut detected: linux.screenToClipboard',
+      'Screenshot shortcut detected: linux.window'
+    ]);
+  });
+
+  it('should detect ChromeOS Ctrl+Shift+Show windows', () => {
+    mockPlatform('Linux x86_64', 'Mozilla/5.0 (X11; CrOS x86_64 14541.0.0)');
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    press({ key: 'LaunchApplication1', ctrlKey: true, shiftKey: true });
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      details: 'Screenshot shortcut detected: chromeos.partial'
+    }));
+  });
+
+  it('should only apply the detected platform profile', () => {
+    mockPlatform('Win32');
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    press({ key: '3', code: 'Digit3', ctrlKey: true, shiftKey: true });
+
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should match macOS digits by code when Shift changes the key', () => {
+    mockPlatform('MacIntel');
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: mockHandler });
+
+    press({ key: '#', code: 'Digit3', metaKey: true, shiftKey: true });
+
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      details: 'Screenshot shortcut detected: macos.fullScreen'
+    }));
+  });
+
+  it('should add and remove rules', () => {
+    mockPlatform('Win32');
+    prevention = new EnhancedScreenshotPrevention({
+      onAttempt: mockHandler,
+      shortcuts: {
+        add: [{ id: 'custom.greenshot', key: 'PrintScreen', ctrl: true, shift: true }],
+        remove: ['windows.printScreen']
+      }
+    });
+
+    press({ key: 'PrintScreen', code: 'PrintScreen' });
+    expect(mockHandler).not.toHaveBeenCalled();
+
+    // Profile rules come first, so a modifier-free rule would shadow it
+    prevention.update({
+      shortcuts: {
+        platforms: ['macos'],
+        add: [{ id: 'custom.greenshot', key: 'PrintScreen', ctrl: true, shift: true }]
+      }
+    });
+    press({ key: 'PrintScreen', ctrlKey: true, shiftKey: true });
+    expect(mockHandler).toHaveBeenCalledWith(expect.objectContaining({
+      details: 'Screenshot shortcut detected: custom.greenshot'
+    }));
+  });
+});
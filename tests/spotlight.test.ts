@@ -0,0 +1,107 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Spotlight', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let secret: HTMLElement;
+
+  const getStyle = () =>
+    document.head.querySelector('[data-screenshot-prevention="spotlight"]') as HTMLStyleElement | null;
+  const spotlightX = () => secret.style.getPropertyValue('--screenshot-prevention-spotlight-x');
+  const spotlightY = () => secret.style.getPropertyValue('--screenshot-prevention-spotlight-y');
+
+  const pointer = (type: string, x: number, y: number, pointerType = 'mouse') => {
+    const event = new MouseEvent(type, { clientX: x, clientY: y, bubbles: true });
+    Object.defineProperty(event, 'pointerType', { value: pointerType });
+    document.dispatchEvent(event);
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '<p data-screenshot-prevention-spotlight>Account 1234</p>';
+    secret = document.querySelector('p')!;
+    jest.spyOn(secret, 'getBoundingClientRect').mockReturnValue({
+      left: 100, top: 100, right: 300, bottom: 200, width: 200, height: 100
+    } as DOMRect);
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should blur marked elements outside a circle around the pointer', () => {
+    prevention = new EnhancedScreenshotPrevention({ spotlight: { radius: 40, blurIntensity: '6px' } });
+
+    const css = getStyle()!.textContent!;
+    expect(css).toContain(':is([data-screenshot-prevention-spotlight])::after');
+    expect(css).toContain('backdrop-filter: blur(6px)');
+    expect(css).toContain('radial-gradient(circle 40px');
+    expect(spotlightX()).toBe('');
+
+    pointer('pointermove', 150, 120);
+
+    expect(spotlightX()).toBe('50px');
+    expect(spotlightY()).toBe('20px');
+
+    pointer('pointermove', 500, 500);
+
+    expect(spotlightX()).toBe('');
+  });
+
+  it('should reveal touch content only while a finger is held down', () => {
+    prevention = new EnhancedScreenshotPrevention({ spotlight: true });
+
+    pointer('pointermove', 150, 120, 'touch');
+    expect(spotlightX()).toBe('');
+
+    pointer('pointerdown', 150, 120, 'touch');
+    expect(spotlightX()).toBe('50px');
+
+    pointer('pointermove', 160, 120, 'touch');
+    expect(spotlightX()).toBe('60px');
+
+    pointer('pointerup', 160, 120, 'touch');
+    expect(spotlightX()).toBe('');
+  });
+
+  it('should require a press for mice in press mode', () => {
+    prevention = new EnhancedScreenshotPrevention({ spotlight: { mode: 'press' } });
+
+    pointer('pointermove', 150, 120);
+    expect(spotlightX()).toBe('');
+
+    pointer('pointerdown', 150, 120);
+    expect(spotlightX()).toBe('50px');
+  });
+
+  it('should conceal everything when the window loses focus', () => {
+    prevention = new EnhancedScreenshotPrevention({ spotlight: true });
+
+    pointer('pointermove', 150, 120);
+    window.dispatchEvent(new Event('blur'));
+
+    expect(spotlightX()).toBe('');
+  });
+
+  it('should remove the spotlight while paused and on update', () => {
+    prevention = new EnhancedScreenshotPrevention({ spotlight: true });
+    pointer('pointermove', 150, 120);
+
+    prevention.pause();
+
+    expect(getStyle()).toBeNull();
+    expect(spotlightX()).toBe('');
+
+    prevention.resume();
+    expect(getStyle()).not.toBeNull();
+
+    prevention.update({ spotlight: false });
+    expect(getStyle()).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import EnhancedScreenshotPrevention, { createScreenshotPrevention } from '../src/index';
+
+describe('Server rendering', () => {
+  it('should import without a DOM', () => {
+    expect(typeof EnhancedScreenshotPrevention).toBe('function');
+  });
+
+  it('should return an inert stub from the factory', async () => {
+    const prevention = createScreenshotPrevention({ warningMessage: 'Server' });
+
+    expect(prevention.isActive()).toBe(false);
+    expect(prevention.getAttemptCount()).toBe(0);
+    expect(typeof prevention.on('attempt', () => {})).toBe('function');
+    await expect(prevention.flushReports()).resolves.toBeUndefined();
+    expect(prevention.getDiagnostics().capabilities.features.blur)
+      .toEqual({ supported: false, enabled: false, active: false });
+    expect(() => prevention.destroy()).not.toThrow();
+  });
+
+  it('should still refuse direct construction', () => {
+    expect(() => new EnhancedScreenshotPrevention()).toThrow();
+  });
+});
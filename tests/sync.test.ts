@@ -0,0 +1,158 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Cross-tab sync', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let timers: Array<{ cb: () => void; delay?: number }>;
+
+  const STATE_KEY = 'screenshot-prevention:sync:state';
+  const MESSAGE_KEY = 'screenshot-prevention:sync:message';
+
+  const getOverlay = () =>
+    document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+  };
+
+  // Another tab writing a message, as seen through the storage fallback
+  const receiveFromOtherTab = (message: object) => {
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: MESSAGE_KEY,
+      newValue: JSON.stringify({ message, nonce: Math.random() })
+    }));
+  };
+
+  const lastPosted = () => JSON.parse(localStorage.getItem(MESSAGE_KEY)!).message;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    sessionStorage.clear();
+    localStorage.clear();
+    timers = [];
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb, delay) => {
+      timers.push({ cb: cb as () => void, delay });
+      return timers.length as any;
+    });
+
+    jest.spyOn(Date, 'now').mockReturnValue(1000000);
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+    delete (window as any).BroadcastChannel;
+  });
+
+  it('should lock and take over the count when another tab records an attempt', () => {
+    prevention = new EnhancedScreenshotPrevention({ sync: true });
+
+    receiveFromOtherTab({ type: 'attempt', state: { count: 3, lockedUntil: 1005000, persistent: false } });
+
+    expect(prevention.getAttemptCount()).toBe(3);
+    expect(getOverlay().style.display).toBe('block');
+    expect(timers[timers.length - 1].delay).toBe(5000);
+  });
+
+  it('should publish local attempts and persist them for the session', () => {
+    prevention = new EnhancedScreenshotPrevention({ sync: true });
+
+    pressPrintScreen();
+
+    expect(lastPosted()).toEqual({
+      type: 'attempt',
+      state: { count: 1, lockedUntil: 1002000, persistent: false }
+    });
+    expect(JSON.parse(sessionStorage.getItem(STATE_KEY)!)).toEqual(lastPosted().state);
+  });
+
+  it('should restore the count and a running lock after a reload', () => {
+    sessionStorage.setItem(STATE_KEY, JSON.stringify({ count: 4, lockedUntil: 1001500, persistent: false }));
+
+    prevention = new EnhancedScreenshotPrevention({ sync: true });
+
+    expect(prevention.getAttemptCount()).toBe(4);
+    expect(getOverlay().style.display).toBe('block');
+    expect(timers[timers.length - 1].delay).toBe(1500);
+  });
+
+  it('should persist to localStorage with the local scope', () => {
+    prevention = new EnhancedScreenshotPrevention({ sync: { scope: 'local' } });
+
+    pressPrintScreen();
+
+    expect(JSON.parse(localStorage.getItem(STATE_KEY)!).count).toBe(1);
+    expect(sessionStorage.getItem(STATE_KEY)).toBeNull();
+  });
+
+  it('should hold a persistent lock from another tab', () => {
+    prevention = new EnhancedScreenshotPrevention({ sync: true });
+    timers = [];
+
+    receiveFromOtherTab({ type: 'attempt', state: { count: 1, lockedUntil: 0, persistent: true } });
+
+    expect(getOverlay().style.display).toBe('block');
+    expect(timers).toHaveLength(0);
+  });
+
+  it('should share reset in both directions', () => {
+    const onReset = jest.fn();
+    prevention = new EnhancedScreenshotPrevention({ sync: true });
+    prevention.on('reset', onReset);
+
+    pressPrintScreen();
+    prevention.reset();
+    expect(lastPosted()).toEqual({ type: 'reset' });
+
+    receiveFromOtherTab({ type: 'attempt', state: { count: 2, lockedUntil: 1002000, persistent: false } });
+    receiveFromOtherTab({ type: 'reset' });
+
+    expect(prevention.getAttemptCount()).toBe(0);
+    expect(getOverlay().style.display).toBe('none');
+    expect(onReset).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prefer BroadcastChannel and answer state requests', () => {
+    const posted: any[] = [];
+    let channel: any;
+    (window as any).BroadcastChannel = class {
+      onmessage: ((e: MessageEvent) => void) | null = null;
+      constructor(public name: string) {
+        channel = this;
+      }
+      postMessage(message: any) {
+        posted.push(message);
+      }
+      close() {}
+    };
+
+    prevention = new EnhancedScreenshotPrevention({ sync: true });
+    expect(channel.name).toBe('screenshot-prevention:sync');
+    expect(posted).toEqual([{ type: 'hello' }]);
+
+    pressPrintScreen();
+    channel.onmessage({ data: { type: 'hello' } });
+
+    expect(posted[posted.length - 1]).toEqual({
+      type: 'state',
+      state: { count: 1, lockedUntil: 1002000, persistent: false }
+    });
+    expect(localStorage.getItem(MESSAGE_KEY)).toBeNull();
+  });
+
+  it('should stay local without the sync option', () => {
+    prevention = new EnhancedScreenshotPrevention();
+
+    pressPrintScreen();
+    receiveFromOtherTab({ type: 'attempt', state: { count: 5, lockedUntil: 1005000, persistent: false } });
+
+    expect(prevention.getAttemptCount()).toBe(1);
+    expect(localStorage.getItem(MESSAGE_KEY)).toBeNull();
+  });
+});
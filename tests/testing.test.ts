@@ -0,0 +1,116 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+import {
+  advanceThroughLock,
+  expectLocked,
+  expectUnlocked,
+  installTestEnvironment,
+  resetScreenshotPrevention,
+  restoreTestEnvironment,
+  simulate
+} from '../src/testing';
+
+describe('Testing kit', () => {
+  let mockHandler: jest.Mock;
+
+  const create = (options = {}) => new EnhancedScreenshotPrevention({ onAttempt: mockHandler, ...options });
+  const lastDetails = () => (mockHandler.mock.calls[mockHandler.mock.calls.length - 1][0] as any).details;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    jest.useFakeTimers();
+    installTestEnvironment();
+    mockHandler = jest.fn();
+  });
+
+  afterEach(() => {
+    resetScreenshotPrevention();
+    restoreTestEnvironment();
+    jest.useRealTimers();
+  });
+
+  it('should lock on a simulated shortcut and unlock after the recovery delay', async () => {
+    const prevention = create({ recoveryDelay: 5000 });
+    expectUnlocked();
+
+    simulate.keyboard();
+
+    expectLocked();
+    expect(() => expectUnlocked()).toThrow('Expected the page to be unlocked');
+
+    await advanceThroughLock(prevention);
+
+    expectUnlocked();
+    expect(() => expectLocked()).toThrow('Expected the page to be locked');
+  });
+
+  it('should simulate the timer-driven detectors', async () => {
+    create();
+
+    await simulate.devTools();
+    expect(lastDetails()).toBe('Developer tools detected');
+
+    await simulate.mobileScreenshot();
+    expect(lastDetails()).toBe('Mobile screenshot detected');
+
+    await simulate.devTools(false);
+    expect(window.outerWidth).toBe(window.innerWidth);
+  });
+
+  it('should simulate the event-driven detectors', () => {
+    create({ printPolicy: 'watermark' });
+
+    simulate.visibilityFlash();
+    expect(lastDetails()).toBe('Rapid visibility change detected');
+    expect(document.hidden).toBe(false);
+
+    simulate.mediaRecording();
+    expect(lastDetails()).toBe('Media recording detected');
+
+    simulate.print();
+    expect(lastDetails()).toBe('Print started');
+
+    simulate.copy();
+    expect(lastDetails()).toBe('Copy blocked');
+  });
+
+  it('should refuse screen shares by default and let approved ones run until ended', async () => {
+    const prevention = create();
+
+    await expect(simulate.screenShare()).resolves.toBeNull();
+    await advanceThroughLock(prevention);
+
+    prevention.update({ onScreenShareRequest: () => true });
+    const stream = await simulate.screenShare();
+
+    expect(stream).not.toBeNull();
+    expect(prevention.getDiagnostics().masked).toBe(true);
+
+    simulate.endScreenShare(stream!);
+
+    expect(lastDetails()).toBe('Screen share ended');
+    expect(prevention.getDiagnostics().masked).toBe(false);
+  });
+
+  it('should report blur as supported unless told otherwise', () => {
+    expect(create().getCapabilities().features.blur.supported).toBe(true);
+
+    resetScreenshotPrevention();
+    installTestEnvironment({ backdropFilter: false });
+
+    expect(create().getCapabilities().features.blur.fallback).toBe('opaque');
+  });
+
+  it('should reset the singleton and restore the environment', () => {
+    const first = create();
+    const { visualViewport } = window;
+
+    resetScreenshotPrevention();
+
+    expect(create()).not.toBe(first);
+
+    restoreTestEnvironment();
+    expect(window.visualViewport).not.toBe(visualViewport);
+    expect(() => simulate.mediaRecording()).toThrow('installTestEnvironment()');
+  });
+});
@@ -0,0 +1,79 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { App, createApp, h, nextTick, ref, withDirectives } from 'vue';
+import { createScreenshotPrevention } from '../src/index';
+import { ProtectBinding, ScreenshotPreventionPlugin, vProtect } from '../src/vue';
+
+describe('Vue directive', () => {
+  let app: App;
+  let container: HTMLElement;
+
+  const getMasks = () =>
+    Array.from(document.querySelectorAll('[data-screenshot-prevention="zone"]')) as HTMLElement[];
+  const getOverlay = () => document.querySelector('[data-screenshot-prevention="overlay"]');
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="app"></div>';
+    container = document.getElementById('app')!;
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(() => {
+    app.unmount();
+    jest.restoreAllMocks();
+  });
+
+  it('should protect elements and share the instance until the last one unmounts', async () => {
+    const items = ref(['a', 'b']);
+    app = createApp({
+      render: () => h('ul', items.value.map(item =>
+        withDirectives(h('li', { key: item }, item), [[vProtect]])
+      ))
+    });
+    app.mount(container);
+
+    expect(getMasks()).toHaveLength(2);
+
+    items.value = ['b'];
+    await nextTick();
+
+    expect(getMasks()).toHaveLength(1);
+    expect(getOverlay()).not.toBeNull();
+
+    items.value = [];
+    await nextTick();
+
+    expect(getOverlay()).toBeNull();
+  });
+
+  it('should apply changed options and zone options', async () => {
+    const binding = ref<ProtectBinding>({ options: { recoveryDelay: 3000, shortcuts: { remove: ['windows.gameBar'] } }, zone: { maskColor: 'black' } });
+    app = createApp({
+      render: () => h('section', [
+        withDirectives(h('p', 'Secret'), [[vProtect, { ...binding.value }]])
+      ])
+    });
+    app.use(ScreenshotPreventionPlugin).mount(container);
+
+    const instance = createScreenshotPrevention();
+    const update = jest.spyOn(instance, 'update');
+    const protect = jest.spyOn(instance, 'protect');
+
+    binding.value = { options: { recoveryDelay: 3000, shortcuts: { remove: ['windows.gameBar'] } }, zone: { maskColor: 'black' } };
+    await nextTick();
+
+    expect(update).not.toHaveBeenCalled();
+    expect(protect).not.toHaveBeenCalled();
+
+    binding.value = { options: { recoveryDelay: 5000, shortcuts: { remove: ['windows.gameBar'] } }, zone: { maskColor: 'navy' } };
+    await nextTick();
+
+    expect(update).toHaveBeenCalledWith({ recoveryDelay: 5000 });
+    expect(protect).toHaveBeenCalledWith(container.querySelector('p'), { maskColor: 'navy' });
+    expect(app._context.directives.protect).toBe(vProtect);
+  });
+});
@@ -0,0 +1,115 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Warning UI', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let timers: Array<() => void>;
+  let button: HTMLButtonElement;
+
+  const getWarning = () =>
+    document.querySelector('[data-screenshot-prevention="warning"]') as HTMLElement;
+  const getOverlay = () =>
+    document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'PrintScreen', bubbles: true }));
+  };
+
+  const messages = {
+    en: { default: 'Capturing is not allowed.', print: 'Printing is disabled.' },
+    de: { default: 'Aufnahmen sind nicht erlaubt.', keyboard: 'Bildschirmfotos sind nicht erlaubt.' }
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '<main><button>Save</button></main>';
+    button = document.querySelector('button')!;
+    timers = [];
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation((cb) => {
+      timers.push(cb as () => void);
+      return timers.length as any;
+    });
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should expose the warning as an alert and hide the overlay from assistive tech', () => {
+    prevention = new EnhancedScreenshotPrevention();
+
+    expect(getWarning().getAttribute('role')).toBe('alert');
+    expect(getWarning().getAttribute('aria-live')).toBe('assertive');
+    expect(getOverlay().getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('should move focus to the warning and make the page inert during a lock', () => {
+    prevention = new EnhancedScreenshotPrevention();
+    button.focus();
+
+    pressPrintScreen();
+
+    expect(document.activeElement).toBe(getWarning());
+    expect(document.querySelector('main')!.hasAttribute('inert')).toBe(true);
+    expect(getWarning().hasAttribute('inert')).toBe(false);
+
+    timers.forEach(cb => cb());
+
+    expect(document.querySelector('main')!.hasAttribute('inert')).toBe(false);
+    expect(document.activeElement).toBe(button);
+  });
+
+  it('should leave focus alone for a privacy mask', () => {
+    prevention = new EnhancedScreenshotPrevention({ privacyScreen: true });
+    button.focus();
+
+    window.dispatchEvent(new Event('blur'));
+
+    expect(document.querySelector('main')!.hasAttribute('inert')).toBe(false);
+  });
+
+  it('should turn the transition off for reduced motion', () => {
+    prevention = new EnhancedScreenshotPrevention();
+
+    const css = document.head.querySelector('style')!.textContent!;
+    expect(css).toMatch(/@media \(prefers-reduced-motion: reduce\) \{\s*\[data-screenshot-prevention\] \{\s*transition: none !important;/);
+  });
+
+  it('should pick the message for the detection method and locale', () => {
+    prevention = new EnhancedScreenshotPrevention({ messages, locale: 'de-AT' });
+
+    pressPrintScreen();
+
+    expect(getWarning().textContent).toBe('Bildschirmfotos sind nicht erlaubt.');
+    expect(getWarning().getAttribute('lang')).toBe('de');
+  });
+
+  it('should fall back to the locale default and then warningMessage', () => {
+    prevention = new EnhancedScreenshotPrevention({ messages, locale: 'en' });
+
+    window.dispatchEvent(new Event('beforeprint'));
+    expect(getWarning().textContent).toBe('Printing is disabled.');
+
+    pressPrintScreen();
+    expect(getWarning().textContent).toBe('Capturing is not allowed.');
+
+    prevention.update({ locale: 'fr', warningMessage: 'Interdit.' });
+    expect(getWarning().textContent).toBe('Interdit.');
+    expect(getWarning().hasAttribute('lang')).toBe(false);
+  });
+
+  it('should follow navigator.language by default', () => {
+    jest.spyOn(navigator, 'language', 'get').mockReturnValue('de-DE');
+    prevention = new EnhancedScreenshotPrevention({ messages });
+
+    pressPrintScreen();
+
+    expect(getWarning().textContent).toBe('Bildschirmfotos sind nicht erlaubt.');
+  });
+});
@@ -0,0 +1,118 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Watermark', () => {
+  let prevention: EnhancedScreenshotPrevention;
+
+  const getWatermark = () =>
+    document.querySelector('[data-screenshot-prevention="watermark"]') as HTMLElement | null;
+
+  const getTileSvg = () => {
+    const image = getWatermark()!.style.backgroundImage;
+    const encoded = image.slice(image.indexOf(',') + 1, image.lastIndexOf(')'));
+    return decodeURIComponent(encoded.replace(/"$/, ''));
+  };
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should tile the configured text without blocking pointer events', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      watermark: { text: ['user-42', 'jane@example.com'], rotation: -45, opacity: 0.1 }
+    });
+
+    const watermark = getWatermark()!;
+    const svg = getTileSvg();
+
+    expect(watermark.style.pointerEvents).toBe('none');
+    expect(watermark.style.display).toBe('block');
+    expect(svg).toContain('>user-42</text>');
+    expect(svg).toContain('>jane@example.com</text>');
+    expect(svg).toContain('rotate(-45');
+    expect(svg).toContain('fill-opacity="0.1"');
+  });
+
+  it('should escape markup in watermark text', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      watermark: { text: '<b>Tom & Jerry</b>' }
+    });
+
+    expect(getTileSvg()).toContain('&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;');
+  });
+
+  it('should only show during a lock when onlyDuringLock is set', () => {
+    prevention = new EnhancedScreenshotPrevention({
+      watermark: { text: 'user-42', onlyDuringLock: true }
+    });
+
+    expect(getWatermark()!.style.display).toBe('none');
+
+    pressPrintScreen();
+    expect(getWatermark()!.style.display).toBe('block');
+
+    prevention.reset();
+    expect(getWatermark()!.style.display).toBe('none');
+  });
+
+  it('should re-render periodically and on resize', () => {
+    const ticks: Array<() => void> = [];
+    jest.spyOn(window, 'setInterval').mockImplementation((cb) => {
+      ticks.push(cb as () => void);
+      return 0 as any;
+    });
+    let counter = 0;
+
+    prevention = new EnhancedScreenshotPrevention({
+      watermark: { text: () => `render-${++counter}`, refreshInterval: 60000 }
+    });
+    expect(getTileSvg()).toContain('render-1');
+
+    ticks.forEach(tick => tick());
+    expect(getTileSvg()).toContain('render-2');
+
+    window.dispatchEvent(new Event('resize'));
+    expect(getTileSvg()).toContain('render-3');
+  });
+
+  it('should apply watermark changes through update', () => {
+    prevention = new EnhancedScreenshotPrevention();
+    expect(getWatermark()).toBeNull();
+
+    prevention.update({ watermark: { text: 'user-42' } });
+    expect(getTileSvg()).toContain('user-42');
+
+    prevention.update({ watermark: { text: 'user-43', gap: 240 } });
+    expect(getTileSvg()).toContain('user-43');
+    expect(getWatermark()!.style.backgroundSize).toBe('240px 240px');
+
+    prevention.update({ watermark: null });
+    expect(getWatermark()).toBeNull();
+  });
+
+  it('should remove the watermark on destroy', () => {
+    prevention = new EnhancedScreenshotPrevention({ watermark: { text: 'user-42' } });
+    prevention.destroy();
+
+    expect(getWatermark()).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import EnhancedScreenshotPrevention from '../src/index';
+
+describe('Protection zones', () => {
+  let prevention: EnhancedScreenshotPrevention;
+  let panel: HTMLElement;
+
+  const pressPrintScreen = () => {
+    document.dispatchEvent(new KeyboardEvent('keydown', {
+      key: 'PrintScreen',
+      bubbles: true
+    }));
+  };
+
+  const getMasks = () =>
+    Array.from(document.querySelectorAll('[data-screenshot-prevention="zone"]')) as HTMLElement[];
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => {
+      cb(0);
+      return 0;
+    });
+
+    jest.spyOn(window, 'setTimeout').mockImplementation(() => 0 as any);
+
+    panel = document.createElement('section');
+    panel.getBoundingClientRect = () => ({
+      top: 10, left: 20, width: 300, height: 150,
+      right: 320, bottom: 160, x: 20, y: 10,
+      toJSON: () => ({})
+    });
+    document.body.appendChild(panel);
+
+    prevention = new EnhancedScreenshotPrevention({ onAttempt: jest.fn() });
+  });
+
+  afterEach(() => {
+    prevention.destroy();
+    jest.clearAllMocks();
+  });
+
+  it('should create a hidden mask for each protected element', () => {
+    prevention.protect(panel);
+
+    const masks = getMasks();
+    expect(masks).toHaveLength(1);
+    expect(masks[0].style.display).toBe('none');
+  });
+
+  it('should mask only protected regions on detection', () => {
+    prevention.protect(panel, { warningMessage: 'Patient record hidden' });
+    pressPrintScreen();
+
+    const [mask] = getMasks();
+    const overlay = document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+
+    expect(mask.style.display).toBe('flex');
+    expect(mask.style.top).toBe('10px');
+    expect(mask.style.left).toBe('20px');
+    expect(mask.style.width).toBe('300px');
+    expect(mask.style.height).toBe('150px');
+    expect(mask.textContent).toBe('Patient record hidden');
+    expect(overlay.style.display).toBe('none');
+  });
+
+  it('should apply per-zone blur and mask colour', () => {
+    prevention.protect(panel, { blurIntensity: '8px', maskColor: 'rgb(0, 0, 0)' });
+
+    const [mask] = getMasks();
+    expect(mask.style.backdropFilter).toBe('blur(8px)');
+    expect(mask.style.background).toBe('rgb(0, 0, 0)');
+  });
+
+  it('should fall back to the full-page overlay once zones are removed', () => {
+    prevention.protect(panel);
+    prevention.unprotect(panel);
+    pressPrintScreen();
+
+    const overlay = document.querySelector('[data-screenshot-prevention="overlay"]') as HTMLElement;
+    expect(getMasks()).toHaveLength(0);
+    expect(overlay.style.display).toBe('block');
+  });
+
+  it('should hide zone masks on reset', () => {
+    prevention.protect(panel);
+    pressPrintScreen();
+    prevention.reset();
+
+    expect(getMasks()[0].style.display).toBe('none');
+  });
+
+  it('should drop zones whose element leaves the document', async () => {
+    prevention.protect(panel);
+    panel.remove();
+
+    // MutationObserver callbacks are delivered as microtasks
+    await Promise.resolve();
+
+    expect(getMasks()).toHaveLength(0);
+  });
+
+  it('should refresh zone text when the warning message is updated', () => {
+    prevention.protect(panel);
+    prevention.update({ warningMessage: 'Hidden for privacy' });
+
+    expect(getMasks()[0].textContent).toBe('Hidden for privacy');
+  });
+});